@@ -9,12 +9,23 @@ import { AppModule } from '../app/app.module';
 import { ValidationPipe } from '@nestjs/common';
 import { AuthType } from '@prisma/client';
 import { MailService } from '../mail/mail.service';
-import { mockDeep } from 'jest-mock-extended';
+import { DeepMockProxy, mockDeep } from 'jest-mock-extended';
 import { MailModule } from '../mail/mail.module';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../provider/redis.provider';
+import { generateTotp, getTotpStep } from '../utils/totp';
 
 describe('Auth Controller Tests', () => {
   let app: NestFastifyApplication;
   let prisma: PrismaService;
+  let mailService: DeepMockProxy<MailService>;
+  let redis: Redis;
+
+  // Codes are stored hashed, the one sent by email is the only way to get them
+  const getSentCode = () => {
+    const { calls } = mailService.sendEmailVerificationCode.mock;
+    return calls[calls.length - 1][1];
+  };
 
   beforeAll(async () => {
     const moduleRef = await Test.createTestingModule({
@@ -28,6 +39,8 @@ describe('Auth Controller Tests', () => {
     );
     app.useGlobalPipes(new ValidationPipe());
     prisma = moduleRef.get(PrismaService);
+    mailService = moduleRef.get(MailService);
+    redis = moduleRef.get(REDIS_CLIENT);
 
     await app.init();
     await app.getHttpAdapter().getInstance().ready();
@@ -90,6 +103,7 @@ describe('Auth Controller Tests', () => {
 
     expect(verificationCode).toBeDefined();
     expect(verificationCode.code).toBeDefined();
+    expect(verificationCode.code).not.toEqual(getSentCode());
     expect(verificationCode.email).toEqual('jane@example.com');
   });
 
@@ -130,20 +144,13 @@ describe('Auth Controller Tests', () => {
       },
     });
 
-    // Get verification code
-    const verificationCode = await prisma.verificationCode.findUnique({
-      where: {
-        email: 'jane@example.com',
-      },
-    });
-
     // Verify email
     const response = await app.inject({
       method: 'POST',
       url: '/auth/verify-email',
       payload: {
         email: 'jane@example.com',
-        code: verificationCode.code,
+        code: getSentCode(),
       },
     });
 
@@ -152,6 +159,7 @@ describe('Auth Controller Tests', () => {
     expect(response.json().isEmailVerified).toEqual(true);
     expect(response.json().password).toBeUndefined();
     expect(response.json().token).toBeDefined();
+    expect(response.json().refreshToken).toBeDefined();
 
     // Verify that the verification code is deleted
     const deletedVerificationCode = await prisma.verificationCode.findUnique({
@@ -163,10 +171,559 @@ describe('Auth Controller Tests', () => {
     expect(deletedVerificationCode).toBeNull();
   });
 
+  describe('verification code throttling tests', () => {
+    const verify = (code: string) =>
+      app.inject({
+        method: 'POST',
+        url: '/auth/verify-email',
+        payload: {
+          email: 'jane@example.com',
+          code,
+        },
+      });
+
+    const wrongCode = () => (getSentCode() === '111111' ? '222222' : '111111');
+
+    it('should invalidate the code and lock the email out after too many invalid codes', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/auth/sign-up',
+        payload: {
+          email: 'jane@example.com',
+        },
+      });
+
+      for (let i = 0; i < 4; i++) {
+        const response = await verify(wrongCode());
+        expect(response.statusCode).toEqual(400);
+        expect(response.json().message).toEqual('Invalid code');
+      }
+
+      const lastResponse = await verify(wrongCode());
+      expect(lastResponse.statusCode).toEqual(400);
+      expect(lastResponse.json().message).toEqual(
+        'Too many invalid codes, request a new code',
+      );
+      expect(await prisma.verificationCode.count()).toEqual(0);
+
+      // Even the right code is rejected during the lockout
+      const lockedResponse = await verify(getSentCode());
+      expect(lockedResponse.statusCode).toEqual(429);
+    });
+
+    it('should not resend a code right after sending one', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/auth/sign-up',
+        payload: {
+          email: 'jane@example.com',
+        },
+      });
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/auth/regenerate-code/jane@example.com',
+      });
+
+      expect(response.statusCode).toEqual(429);
+      expect(mailService.sendEmailVerificationCode).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('magic link tests', () => {
+    const requestMagicLink = async (appUrl?: string) => {
+      await prisma.user.create({
+        data: {
+          email: 'jane@example.com',
+          authType: AuthType.EMAIL,
+        },
+      });
+
+      return app.inject({
+        method: 'POST',
+        url: '/auth/sign-in',
+        payload: {
+          email: 'jane@example.com',
+          method: 'magic-link',
+          appUrl,
+        },
+      });
+    };
+
+    const getSentToken = () => {
+      const { calls } = mailService.sendMagicLinkEmail.mock;
+      return new URL(calls[calls.length - 1][1]).searchParams.get('token');
+    };
+
+    it('should sign in with a magic link', async () => {
+      const response = await requestMagicLink();
+
+      expect(response.statusCode).toEqual(201);
+      expect(response.json().deviceBinding).toBeDefined();
+      expect(mailService.sendEmailVerificationCode).not.toHaveBeenCalled();
+
+      const magicResponse = await app.inject({
+        method: 'GET',
+        url: `/auth/magic/${getSentToken()}`,
+        headers: {
+          'x-device-binding': response.json().deviceBinding,
+        },
+      });
+
+      expect(magicResponse.statusCode).toEqual(200);
+      expect(magicResponse.json().email).toEqual('jane@example.com');
+      expect(magicResponse.json().isEmailVerified).toEqual(true);
+      expect(magicResponse.json().token).toBeDefined();
+      expect(magicResponse.json().refreshToken).toBeDefined();
+    });
+
+    it('should not sign in twice with the same magic link', async () => {
+      const response = await requestMagicLink();
+      const request = {
+        method: 'GET' as const,
+        url: `/auth/magic/${getSentToken()}`,
+        headers: {
+          'x-device-binding': response.json().deviceBinding,
+        },
+      };
+
+      expect((await app.inject(request)).statusCode).toEqual(200);
+      expect((await app.inject(request)).statusCode).toEqual(403);
+    });
+
+    it('should not sign in with a magic link on another device', async () => {
+      await requestMagicLink();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/auth/magic/${getSentToken()}`,
+        headers: {
+          'x-device-binding': 'another-device',
+        },
+      });
+
+      expect(response.statusCode).toEqual(403);
+    });
+
+    it('should not send a magic link to an app URL not allowed', async () => {
+      const response = await requestMagicLink('https://example.com/steal');
+
+      expect(response.statusCode).toEqual(400);
+      expect(mailService.sendMagicLinkEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('two-factor tests', () => {
+    const headers = { 'x-e2e-user-email': 'jane@example.com' };
+
+    // Set up and enable two-factor authentication, the code of the current step is used up
+    const enableTwoFactor = async () => {
+      await prisma.user.create({
+        data: {
+          email: 'jane@example.com',
+          authType: AuthType.EMAIL,
+          isEmailVerified: true,
+        },
+      });
+
+      const setupResponse = await app.inject({
+        method: 'POST',
+        url: '/auth/2fa/setup',
+        headers,
+      });
+      const { secret } = setupResponse.json();
+
+      const verifyResponse = await app.inject({
+        method: 'POST',
+        url: '/auth/2fa/verify',
+        headers,
+        payload: {
+          code: generateTotp(secret, getTotpStep()),
+        },
+      });
+
+      return { secret, recoveryCodes: verifyResponse.json().recoveryCodes };
+    };
+
+    const signIn = async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/auth/sign-in',
+        payload: {
+          email: 'jane@example.com',
+        },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/verify-email',
+        payload: {
+          email: 'jane@example.com',
+          code: getSentCode(),
+        },
+      });
+
+      return response.json();
+    };
+
+    it('should be able to set up two-factor authentication', async () => {
+      await prisma.user.create({
+        data: {
+          email: 'jane@example.com',
+          authType: AuthType.EMAIL,
+          isEmailVerified: true,
+        },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/2fa/setup',
+        headers,
+      });
+
+      expect(response.statusCode).toEqual(201);
+      expect(response.json().secret).toBeDefined();
+      expect(response.json().otpauthUri).toMatch(
+        /^otpauth:\/\/totp\/Culero:jane%40example.com\?secret=/,
+      );
+
+      const twoFactor = await prisma.twoFactorAuth.findFirst();
+      expect(twoFactor.enabledAt).toBeNull();
+    });
+
+    it('should enable two-factor authentication with a valid code', async () => {
+      const { recoveryCodes } = await enableTwoFactor();
+
+      expect(recoveryCodes).toHaveLength(10);
+
+      const twoFactor = await prisma.twoFactorAuth.findFirst();
+      expect(twoFactor.enabledAt).not.toBeNull();
+      expect(twoFactor.recoveryCodes).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should ask for a code when signing in', async () => {
+      const { secret } = await enableTwoFactor();
+
+      const firstStep = await signIn();
+      expect(firstStep.token).toBeUndefined();
+      expect(firstStep.refreshToken).toBeUndefined();
+      expect(firstStep.twoFactorToken).toBeDefined();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/2fa/sign-in',
+        payload: {
+          twoFactorToken: firstStep.twoFactorToken,
+          code: generateTotp(secret, getTotpStep() + 1),
+        },
+      });
+
+      expect(response.statusCode).toEqual(201);
+      expect(response.json().email).toEqual('jane@example.com');
+      expect(response.json().token).toBeDefined();
+      expect(response.json().refreshToken).toBeDefined();
+    });
+
+    it('should not accept a code twice', async () => {
+      const { secret } = await enableTwoFactor();
+      const { twoFactorToken } = await signIn();
+
+      // The code used to enable two-factor authentication
+      const { lastUsedStep } = await prisma.twoFactorAuth.findFirst();
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/2fa/sign-in',
+        payload: {
+          twoFactorToken,
+          code: generateTotp(secret, lastUsedStep),
+        },
+      });
+
+      expect(response.statusCode).toEqual(400);
+    });
+
+    it('should lock the user out after too many wrong codes', async () => {
+      const { secret } = await enableTwoFactor();
+      const { twoFactorToken } = await signIn();
+
+      const completeSignIn = (code: string) =>
+        app.inject({
+          method: 'POST',
+          url: '/auth/2fa/sign-in',
+          payload: { twoFactorToken, code },
+        });
+
+      for (let i = 0; i < 5; i++) {
+        expect((await completeSignIn('invalid')).statusCode).toEqual(400);
+      }
+
+      // Even the right code is rejected during the lockout
+      const response = await completeSignIn(
+        generateTotp(secret, getTotpStep() + 1),
+      );
+      expect(response.statusCode).toEqual(429);
+    });
+
+    it('should sign in once with a recovery code', async () => {
+      const { recoveryCodes } = await enableTwoFactor();
+      const { twoFactorToken } = await signIn();
+
+      const request = {
+        method: 'POST' as const,
+        url: '/auth/2fa/sign-in',
+        payload: {
+          twoFactorToken,
+          code: recoveryCodes[0].toUpperCase(),
+        },
+      };
+
+      expect((await app.inject(request)).statusCode).toEqual(201);
+      expect((await app.inject(request)).statusCode).toEqual(400);
+    });
+
+    it('should require a valid code to disable two-factor authentication', async () => {
+      const { secret } = await enableTwoFactor();
+
+      const invalidResponse = await app.inject({
+        method: 'DELETE',
+        url: '/auth/2fa',
+        headers,
+        payload: {
+          code: 'invalid',
+        },
+      });
+
+      expect(invalidResponse.statusCode).toEqual(400);
+      expect(await prisma.twoFactorAuth.count()).toEqual(1);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/auth/2fa',
+        headers,
+        payload: {
+          code: generateTotp(secret, getTotpStep() + 1),
+        },
+      });
+
+      expect(response.statusCode).toEqual(204);
+      expect(await prisma.twoFactorAuth.count()).toEqual(0);
+
+      const { token } = await signIn();
+      expect(token).toBeDefined();
+    });
+  });
+
+  describe('session tests', () => {
+    const signUpAndVerify = async (deviceName?: string) => {
+      await app.inject({
+        method: 'POST',
+        url: '/auth/sign-up',
+        payload: {
+          email: 'jane@example.com',
+        },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/verify-email',
+        payload: {
+          email: 'jane@example.com',
+          code: getSentCode(),
+          deviceName,
+        },
+      });
+
+      return response.json();
+    };
+
+    it('should start a session when verifying the email', async () => {
+      await signUpAndVerify("Jane's laptop");
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/auth/sessions',
+        headers: {
+          'x-e2e-user-email': 'jane@example.com',
+        },
+      });
+
+      expect(response.statusCode).toEqual(200);
+      expect(response.json()).toHaveLength(1);
+      expect(response.json()[0].deviceName).toEqual("Jane's laptop");
+      expect(response.json()[0].isCurrent).toEqual(false);
+    });
+
+    it('should rotate the refresh token', async () => {
+      const { refreshToken } = await signUpAndVerify();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: {
+          refreshToken,
+        },
+      });
+
+      expect(response.statusCode).toEqual(201);
+      expect(response.json().token).toBeDefined();
+      expect(response.json().refreshToken).toBeDefined();
+      expect(response.json().refreshToken).not.toEqual(refreshToken);
+
+      // The new refresh token can be used in turn
+      const secondResponse = await app.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: {
+          refreshToken: response.json().refreshToken,
+        },
+      });
+
+      expect(secondResponse.statusCode).toEqual(201);
+    });
+
+    it('should revoke the session when a refresh token is reused', async () => {
+      const { refreshToken } = await signUpAndVerify();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: {
+          refreshToken,
+        },
+      });
+
+      const reuseResponse = await app.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: {
+          refreshToken,
+        },
+      });
+
+      expect(reuseResponse.statusCode).toEqual(403);
+      expect(await prisma.session.count()).toEqual(0);
+
+      // The token issued by the rotation is revoked with the session
+      const rotatedResponse = await app.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: {
+          refreshToken: response.json().refreshToken,
+        },
+      });
+
+      expect(rotatedResponse.statusCode).toEqual(403);
+    });
+
+    it('should not revoke the session for a wrong secret', async () => {
+      const { refreshToken } = await signUpAndVerify();
+      const [sessionId] = refreshToken.split('.');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: {
+          refreshToken: `${sessionId}.guessed`,
+        },
+      });
+
+      expect(response.statusCode).toEqual(403);
+      expect(await prisma.session.count()).toEqual(1);
+
+      const refreshResponse = await app.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: {
+          refreshToken,
+        },
+      });
+
+      expect(refreshResponse.statusCode).toEqual(201);
+    });
+
+    it('should not refresh with an invalid refresh token', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: {
+          refreshToken: 'invalid',
+        },
+      });
+
+      expect(response.statusCode).toEqual(403);
+    });
+
+    it('should be able to revoke a session', async () => {
+      await signUpAndVerify();
+      const session = await prisma.session.findFirst();
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/auth/sessions/${session.id}`,
+        headers: {
+          'x-e2e-user-email': 'jane@example.com',
+        },
+      });
+
+      expect(response.statusCode).toEqual(204);
+      expect(await prisma.session.count()).toEqual(0);
+    });
+
+    it('should be able to log out of every device', async () => {
+      await signUpAndVerify();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/logout-all',
+        headers: {
+          'x-e2e-user-email': 'jane@example.com',
+        },
+      });
+
+      expect(response.statusCode).toEqual(204);
+      expect(await prisma.session.count()).toEqual(0);
+
+      const user = await prisma.user.findUnique({
+        where: { email: 'jane@example.com' },
+      });
+      expect(user.tokensValidAfter).not.toBeNull();
+    });
+
+    it('should not revoke a session of another user', async () => {
+      await signUpAndVerify();
+      const session = await prisma.session.findFirst();
+      await prisma.user.create({
+        data: {
+          email: 'john@example.com',
+          authType: AuthType.EMAIL,
+          isEmailVerified: true,
+        },
+      });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/auth/sessions/${session.id}`,
+        headers: {
+          'x-e2e-user-email': 'john@example.com',
+        },
+      });
+
+      expect(response.statusCode).toEqual(404);
+      expect(await prisma.session.count()).toEqual(1);
+    });
+  });
+
   afterEach(async () => {
     await prisma.userSettings.deleteMany();
     await prisma.user.deleteMany();
     await prisma.verificationCode.deleteMany();
+    mailService.sendEmailVerificationCode.mockClear();
+    mailService.sendMagicLinkEmail.mockClear();
+
+    const keys = await redis.keys('verif*');
+    if (keys.length) {
+      await redis.del(...keys);
+    }
   });
 
   afterAll(async () => {
@@ -1,6 +1,10 @@
 import { Module } from '@nestjs/common';
 import { AuthController } from './controller/auth.controller';
 import { AuthService } from './service/auth.service';
+import { SessionsService } from './service/sessions.service';
+import { VerificationAttemptsService } from './service/verification-attempts.service';
+import { MagicLinkService } from './service/magic-link.service';
+import { TwoFactorService } from './service/two-factor.service';
 import { JwtModule } from '@nestjs/jwt';
 import { GoogleOAuthStrategyFactory } from '../oauth/factory/google/google-strategy.factory';
 import { GoogleStrategy } from '../oauth/strategy/google/google.strategy';
@@ -27,9 +31,15 @@ import { GithubStrategy } from '../oauth/strategy/github/github.strategy';
     }),
   ],
   controllers: [AuthController],
+  // the auth guard checks the tokens with the sessions
+  exports: [SessionsService],
   providers: [
     MailService,
     AuthService,
+    SessionsService,
+    VerificationAttemptsService,
+    MagicLinkService,
+    TwoFactorService,
     GoogleOAuthStrategyFactory,
     {
       provide: GoogleStrategy,
@@ -11,6 +11,11 @@ import { ConfigService } from '@nestjs/config';
 import { MailService } from '../../mail/mail.service';
 import { mockDeep } from 'jest-mock-extended';
 import { GithubOAuthStrategyFactory } from '../../oauth/factory/github/github-strategy.factory';
+import { SessionsService } from '../service/sessions.service';
+import { REDIS_CLIENT } from '../../provider/redis.provider';
+import { VerificationAttemptsService } from '../service/verification-attempts.service';
+import { MagicLinkService } from '../service/magic-link.service';
+import { TwoFactorService } from '../service/two-factor.service';
 
 describe('AuthController', () => {
   let controller: AuthController;
@@ -20,6 +25,10 @@ describe('AuthController', () => {
       controllers: [AuthController],
       providers: [
         AuthService,
+        SessionsService,
+        VerificationAttemptsService,
+        MagicLinkService,
+        TwoFactorService,
         PrismaService,
         JwtService,
         GoogleOAuthStrategyFactory,
@@ -27,8 +36,12 @@ describe('AuthController', () => {
         FacebookOAuthStrategyFactory,
         AppleOAuthStrategyFactory,
         GithubOAuthStrategyFactory,
-        ConfigService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ JWT_SECRET: 'secret' }),
+        },
         MailService,
+        { provide: REDIS_CLIENT, useValue: {} },
       ],
     })
       .overrideProvider(MailService)
@@ -1,7 +1,9 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
+  Headers,
   HttpCode,
   HttpException,
   HttpStatus,
@@ -14,6 +16,7 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { AuthService } from '../service/auth.service';
+import { DEVICE_BINDING_HEADER } from '../service/magic-link.service';
 import { GoogleOAuthStrategyFactory } from '../../oauth/factory/google/google-strategy.factory';
 import { AuthGuard } from '@nestjs/passport';
 import { Public } from '../../decorators/public.decorator';
@@ -25,24 +28,57 @@ import { SigninDto } from '../dto/signin.dto';
 import { EmailVerificationDto } from '../dto/email-verification.dto';
 import {
   ApiBadRequestResponse,
+  ApiBearerAuth,
   ApiConflictResponse,
   ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiHeader,
   ApiNoContentResponse,
   ApiNotFoundResponse,
+  ApiOkResponse,
   ApiOperation,
   ApiTags,
+  ApiTooManyRequestsResponse,
 } from '@nestjs/swagger';
 import { userProperties } from '../../schemas/user.properties';
 import { LowercasePipe } from '../../common/pipes/lowercase.pipe';
 import { GithubOAuthStrategyFactory } from '../../oauth/factory/github/github-strategy.factory';
 import { CurrentUser } from '../../decorators/current-user.decorator';
 import { SocialAccountType, User } from '@prisma/client';
+import {
+  CurrentSessionId,
+  CurrentTokenPayload,
+} from '../../decorators/current-session.decorator';
+import {
+  SessionsService,
+  TokenPayload,
+  getSessionClient,
+} from '../service/sessions.service';
+import { AuthTokensDto, RefreshTokenDto, SessionDto } from '../dto/session.dto';
+import {
+  RecoveryCodesDto,
+  TwoFactorChallengeDto,
+  TwoFactorCodeDto,
+  TwoFactorSetupDto,
+  TwoFactorSignInDto,
+} from '../dto/two-factor.dto';
+import { TwoFactorService } from '../service/two-factor.service';
+
+// The app gets the tokens, or a token for the second step when two-factor authentication is enabled
+const getSignInQuery = (
+  user: Partial<AuthTokensDto & TwoFactorChallengeDto>,
+) =>
+  user.twoFactorToken
+    ? `twoFactorToken=${user.twoFactorToken}`
+    : `token=${user.token}&refreshToken=${user.refreshToken}`;
 
 @Controller('auth')
 @ApiTags('Auth Controller')
 export class AuthController {
   constructor(
     private authService: AuthService,
+    private sessionsService: SessionsService,
+    private twoFactorService: TwoFactorService,
     private googleOAuthStrategyFactory: GoogleOAuthStrategyFactory,
     private facebookOAuthStrategyFactory: FacebookOAuthStrategyFactory,
     private linkedinOAuthStrategyFactory: LinkedInOAuthStrategyFactory,
@@ -76,7 +112,7 @@ export class AuthController {
     const host = req.session.app_url;
 
     res.send(
-      `<script>window.location.replace("${host}?token=${user.token}")</script>`,
+      `<script>window.location.replace("${host}?${getSignInQuery(user)}")</script>`,
     );
   }
 
@@ -139,7 +175,7 @@ export class AuthController {
     } else {
       const user = await this.authService.handleFacebookOAuthLogin(req);
       res.send(
-        `<script>window.location.replace("${host}?token=${user.token}")</script>`,
+        `<script>window.location.replace("${host}?${getSignInQuery(user)}")</script>`,
       );
     }
   }
@@ -199,7 +235,7 @@ export class AuthController {
     } else {
       const user = await this.authService.handleLinkedInOAuthLogin(req);
       res.send(
-        `<script>window.location.replace("${host}?token=${user.token}")</script>`,
+        `<script>window.location.replace("${host}?${getSignInQuery(user)}")</script>`,
       );
     }
   }
@@ -231,7 +267,7 @@ export class AuthController {
     const host = req.session.app_url;
 
     res.send(
-      `<script>window.location.replace("${host}?token=${user.token}")</script>`,
+      `<script>window.location.replace("${host}?${getSignInQuery(user)}")</script>`,
     );
   }
 
@@ -243,7 +279,7 @@ export class AuthController {
     const host = req.session.app_url;
 
     res.send(
-      `<script>window.location.replace("${host}?token=${user.token}")</script>`,
+      `<script>window.location.replace("${host}?${getSignInQuery(user)}")</script>`,
     );
   }
 
@@ -307,7 +343,7 @@ export class AuthController {
     } else {
       const user = await this.authService.handleGithubOAuthLogin(req);
       res.send(
-        `<script>window.location.replace("${host}?token=${user.token}")</script>`,
+        `<script>window.location.replace("${host}?${getSignInQuery(user)}")</script>`,
       );
     }
   }
@@ -324,8 +360,11 @@ export class AuthController {
   @ApiConflictResponse({
     description: 'User with this email already exists',
   })
-  async signUp(@Body() dto: SignupDto) {
-    return await this.authService.signUp(dto);
+  @ApiTooManyRequestsResponse({
+    description: 'Too many verification codes requested',
+  })
+  async signUp(@Body() dto: SignupDto, @Req() req) {
+    return await this.authService.signUp(dto, req.ip);
   }
 
   @Public()
@@ -344,11 +383,21 @@ export class AuthController {
       properties: {
         isEmailVerified: userProperties.isEmailVerified,
         email: userProperties.email,
+        deviceBinding: {
+          type: 'string',
+          description: `Returned for magic links, to send in the ${DEVICE_BINDING_HEADER} header when opening the link`,
+        },
       },
     },
   })
-  async signIn(@Body() dto: SigninDto) {
-    return await this.authService.signIn(dto);
+  @ApiBadRequestResponse({
+    description: 'App URL not allowed',
+  })
+  @ApiTooManyRequestsResponse({
+    description: 'Too many verification codes requested',
+  })
+  async signIn(@Body() dto: SigninDto, @Req() req) {
+    return await this.authService.signIn(dto, req.ip);
   }
 
   @Public()
@@ -366,11 +415,15 @@ export class AuthController {
   @ApiNotFoundResponse({
     description: 'User not found',
   })
+  @ApiTooManyRequestsResponse({
+    description: 'Too many verification codes requested',
+  })
   @HttpCode(HttpStatus.NO_CONTENT)
   async resendEmailVerificationCode(
     @Param('email', LowercasePipe) email: string,
+    @Req() req,
   ) {
-    return await this.authService.resendEmailVerificationCode(email);
+    return await this.authService.resendEmailVerificationCode(email, req.ip);
   }
 
   @Public()
@@ -385,6 +438,9 @@ export class AuthController {
   @ApiBadRequestResponse({
     description: 'Invalid verification code',
   })
+  @ApiTooManyRequestsResponse({
+    description: 'Too many invalid verification codes',
+  })
   @ApiCreatedResponse({
     description: 'Email verified successfully',
     schema: {
@@ -392,11 +448,247 @@ export class AuthController {
       properties: {
         ...userProperties,
         token: { type: 'string' },
+        refreshToken: { type: 'string' },
+        twoFactorToken: {
+          type: 'string',
+          description:
+            'Returned instead of the tokens when two-factor authentication is enabled',
+        },
+      },
+    },
+  })
+  async verifyEmail(@Body() dto: EmailVerificationDto, @Req() req) {
+    return await this.authService.verifyEmail(
+      dto.email,
+      dto.code,
+      getSessionClient(req, dto.deviceName),
+    );
+  }
+
+  @Public()
+  @Get('magic/:token')
+  @ApiOperation({
+    summary: 'Sign in with magic link',
+    description:
+      'Verify a magic link sent by email. It works once, on the device that requested it.',
+  })
+  @ApiHeader({
+    name: DEVICE_BINDING_HEADER,
+    description: 'Device binding returned when requesting the magic link',
+    required: true,
+  })
+  @ApiOkResponse({
+    description: 'Signed in successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        ...userProperties,
+        token: { type: 'string' },
+        refreshToken: { type: 'string' },
+        twoFactorToken: {
+          type: 'string',
+          description:
+            'Returned instead of the tokens when two-factor authentication is enabled',
+        },
       },
     },
   })
-  async verifyEmail(@Body() dto: EmailVerificationDto) {
-    return await this.authService.verifyEmail(dto.email, dto.code);
+  @ApiForbiddenResponse({
+    description: 'Invalid, expired or already used magic link',
+  })
+  async signInWithMagicLink(
+    @Param('token') token: string,
+    @Headers(DEVICE_BINDING_HEADER) deviceBinding: string,
+    @Req() req,
+  ) {
+    return await this.authService.signInWithMagicLink(
+      token,
+      deviceBinding,
+      getSessionClient(req),
+    );
+  }
+
+  @Public()
+  @Post('2fa/sign-in')
+  @ApiOperation({
+    summary: 'Two-factor sign in',
+    description:
+      'Complete a sign in with a code of the authenticator app or a recovery code',
+  })
+  @ApiCreatedResponse({
+    description: 'Signed in successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        ...userProperties,
+        token: { type: 'string' },
+        refreshToken: { type: 'string' },
+      },
+    },
+  })
+  @ApiBadRequestResponse({ description: 'Invalid code' })
+  @ApiForbiddenResponse({ description: 'Invalid or expired two-factor token' })
+  @ApiTooManyRequestsResponse({ description: 'Too many invalid codes' })
+  async completeTwoFactorSignIn(@Body() dto: TwoFactorSignInDto, @Req() req) {
+    return await this.authService.completeTwoFactorSignIn(
+      dto,
+      getSessionClient(req),
+    );
+  }
+
+  @Post('2fa/setup')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Set up two-factor authentication',
+    description:
+      'Generate the secret of the authenticator app. Two-factor authentication is enabled once a first code is verified.',
+  })
+  @ApiCreatedResponse({ type: TwoFactorSetupDto })
+  @ApiConflictResponse({
+    description: 'Two-factor authentication already enabled',
+  })
+  async setupTwoFactor(@CurrentUser() user: User): Promise<TwoFactorSetupDto> {
+    return this.twoFactorService.setup(user);
+  }
+
+  @Post('2fa/verify')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Enable two-factor authentication',
+    description:
+      'Verify a first code of the authenticator app and get the recovery codes',
+  })
+  @ApiCreatedResponse({ type: RecoveryCodesDto })
+  @ApiBadRequestResponse({ description: 'Invalid code' })
+  @ApiNotFoundResponse({
+    description: 'Two-factor authentication not set up',
+  })
+  @ApiConflictResponse({
+    description: 'Two-factor authentication already enabled',
+  })
+  async enableTwoFactor(
+    @CurrentUser() user: User,
+    @Body() dto: TwoFactorCodeDto,
+    @Req() req,
+  ): Promise<RecoveryCodesDto> {
+    return this.twoFactorService.enable(user, dto.code, req.ip);
+  }
+
+  @Delete('2fa')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description: 'Requires a code of the authenticator app or a recovery code',
+  })
+  @ApiNoContentResponse({
+    description: 'Two-factor authentication disabled successfully',
+  })
+  @ApiBadRequestResponse({ description: 'Invalid code' })
+  @ApiNotFoundResponse({
+    description: 'Two-factor authentication not enabled',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disableTwoFactor(
+    @CurrentUser() user: User,
+    @Body() dto: TwoFactorCodeDto,
+    @Req() req,
+  ) {
+    await this.twoFactorService.disable(user, dto.code, req.ip);
+  }
+
+  @Public()
+  @Post('refresh')
+  @ApiOperation({
+    summary: 'Refresh tokens',
+    description:
+      'Exchange a refresh token for a new access token and refresh token. ' +
+      'Reusing a refresh token revokes its session.',
+  })
+  @ApiCreatedResponse({
+    description: 'Tokens refreshed successfully',
+    type: AuthTokensDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Invalid, expired or reused refresh token',
+  })
+  async refresh(
+    @Body() dto: RefreshTokenDto,
+    @Req() req,
+  ): Promise<AuthTokensDto> {
+    return await this.sessionsService.refresh(
+      dto.refreshToken,
+      getSessionClient(req, dto.deviceName),
+    );
+  }
+
+  @Post('logout')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out',
+    description: 'Revoke the access token and the session of the request',
+  })
+  @ApiNoContentResponse({ description: 'Logged out successfully' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@CurrentTokenPayload() payload: TokenPayload) {
+    await this.sessionsService.logout(payload);
+  }
+
+  @Post('logout-all')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out everywhere',
+    description:
+      'Revoke every session and every access token issued until now, on all devices',
+  })
+  @ApiNoContentResponse({ description: 'Logged out successfully' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logoutAll(@CurrentUser() user: User) {
+    await this.sessionsService.logoutAll(user.id);
+  }
+
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get sessions',
+    description: 'Get the devices the user is signed in on',
+  })
+  @ApiOkResponse({ type: [SessionDto] })
+  async getSessions(
+    @CurrentUser() user: User,
+    @CurrentSessionId() sessionId: string,
+  ): Promise<SessionDto[]> {
+    return this.sessionsService.getSessions(user.id, sessionId);
+  }
+
+  @Delete('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Revoke other sessions',
+    description: 'Sign out of every device except the current one',
+  })
+  @ApiNoContentResponse({ description: 'Sessions revoked successfully' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteOtherSessions(
+    @CurrentUser() user: User,
+    @CurrentSessionId() sessionId: string,
+  ) {
+    await this.sessionsService.deleteOtherSessions(user.id, sessionId);
+  }
+
+  @Delete('sessions/:sessionId')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Revoke session',
+    description: 'Sign out of a device',
+  })
+  @ApiNoContentResponse({ description: 'Session revoked successfully' })
+  @ApiNotFoundResponse({ description: 'Session not found' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteSession(
+    @CurrentUser() user: User,
+    @Param('sessionId') sessionId: string,
+  ) {
+    await this.sessionsService.deleteSession(user.id, sessionId);
   }
 
   @Get('/social-accounts')
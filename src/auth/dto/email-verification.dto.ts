@@ -1,6 +1,13 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Transform } from 'class-transformer';
-import { IsEmail, Matches } from 'class-validator';
+import {
+  IsEmail,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { MAX_DEVICE_NAME_LENGTH } from './session.dto';
 
 export class EmailVerificationDto {
   @IsEmail()
@@ -24,4 +31,15 @@ export class EmailVerificationDto {
     example: '123456',
   })
   code: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(MAX_DEVICE_NAME_LENGTH)
+  @ApiProperty({
+    name: 'deviceName',
+    description: 'Name of the device, shown in the list of sessions',
+    required: false,
+    type: String,
+  })
+  deviceName?: string;
 }
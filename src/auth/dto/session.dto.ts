@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export const MAX_DEVICE_NAME_LENGTH = 100;
+
+export class RefreshTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'Refresh token returned with the last access token',
+  })
+  refreshToken: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(MAX_DEVICE_NAME_LENGTH)
+  @ApiProperty({
+    description: 'Name of the device, shown in the list of sessions',
+    required: false,
+    example: "Jane's iPhone",
+  })
+  deviceName?: string;
+}
+
+export class AuthTokensDto {
+  @ApiProperty({ description: 'Access token to send as a bearer token' })
+  token: string;
+
+  @ApiProperty({
+    description:
+      'Single use token to get new tokens with once the access token expires',
+  })
+  refreshToken: string;
+}
+
+export class SessionDto {
+  id: string;
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'True for the session of the access token of the request',
+  })
+  isCurrent: boolean;
+}
@@ -1,6 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Transform } from 'class-transformer';
-import { IsEmail } from 'class-validator';
+import { IsEmail, IsEnum, IsOptional, IsString } from 'class-validator';
+
+export enum SignInMethod {
+  CODE = 'code',
+  MAGIC_LINK = 'magic-link',
+}
 
 export class SigninDto {
   @IsEmail()
@@ -13,4 +18,26 @@ export class SigninDto {
     example: 'johndoe@example.com',
   })
   email: string;
+
+  @IsEnum(SignInMethod)
+  @IsOptional()
+  @ApiProperty({
+    name: 'method',
+    description: 'Email a 6 digit code or a magic link. Defaults to a code.',
+    required: false,
+    enum: SignInMethod,
+  })
+  method?: SignInMethod;
+
+  @IsString()
+  @IsOptional()
+  @ApiProperty({
+    name: 'appUrl',
+    description:
+      'URL the magic link opens, it has to be one of the allowed app URLs. Defaults to the first one.',
+    required: false,
+    type: String,
+    example: 'https://culero.com/auth/magic',
+  })
+  appUrl?: string;
 }
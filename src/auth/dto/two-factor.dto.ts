@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { MAX_DEVICE_NAME_LENGTH } from './session.dto';
+
+export class TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  @ApiProperty({
+    description: 'Code of the authenticator app, or an unused recovery code',
+    example: '123456',
+  })
+  code: string;
+}
+
+export class TwoFactorSignInDto extends TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'Token returned by the first sign in step',
+  })
+  twoFactorToken: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(MAX_DEVICE_NAME_LENGTH)
+  @ApiProperty({
+    description: 'Name of the device, shown in the list of sessions',
+    required: false,
+  })
+  deviceName?: string;
+}
+
+export class TwoFactorSetupDto {
+  @ApiProperty({ description: 'Secret to type in the authenticator app' })
+  secret: string;
+
+  @ApiProperty({
+    description:
+      'otpauth:// URI to show as a QR code for the authenticator app',
+  })
+  otpauthUri: string;
+}
+
+export class RecoveryCodesDto {
+  @ApiProperty({
+    description:
+      'Single use codes to sign in without the authenticator app, shown only once',
+  })
+  recoveryCodes: string[];
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({
+    description:
+      'Returned instead of the tokens when two-factor authentication is enabled, to send with a code',
+  })
+  twoFactorToken: string;
+}
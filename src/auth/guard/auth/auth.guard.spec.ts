@@ -1,7 +1,153 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { User } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { REDIS_CLIENT } from '../../../provider/redis.provider';
+import { SessionsService, TokenPayload } from '../../service/sessions.service';
 import { AuthGuard } from './auth.guard';
 
 describe('AuthGuard', () => {
+  let guard: AuthGuard;
+  let prisma: {
+    user: { findUnique: jest.Mock };
+    session: { findUnique: jest.Mock };
+  };
+  let jwt: JwtService;
+  let cache: { exists: jest.Mock };
+
+  const user = {
+    id: 'user-id',
+    email: 'johndoe@example.com',
+    isEmailVerified: true,
+    tokensValidAfter: null,
+  } as User;
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+
+  const createContext = (request: any) =>
+    ({
+      getHandler: () => () => undefined,
+      getClass: () => class {},
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  const withToken = () => ({
+    headers: { authorization: 'Bearer token' },
+    query: {},
+  });
+
+  const mockPayload = (payload: Partial<TokenPayload>) =>
+    jest.spyOn(jwt, 'verifyAsync').mockResolvedValue({
+      id: user.id,
+      sid: 'session-id',
+      jti: 'token-id',
+      iat: issuedAt,
+      ...payload,
+    });
+
+  beforeEach(async () => {
+    cache = { exists: jest.fn().mockResolvedValue(0) };
+    prisma = {
+      user: { findUnique: jest.fn().mockResolvedValue(user) },
+      session: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'session-id' }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthGuard,
+        Reflector,
+        SessionsService,
+        JwtService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: REDIS_CLIENT, useValue: cache },
+      ],
+    }).compile();
+
+    guard = module.get<AuthGuard>(AuthGuard);
+    jwt = module.get<JwtService>(JwtService);
+  });
+
   it('should be defined', () => {
-    expect(new AuthGuard(null, null, null)).toBeDefined();
+    expect(guard).toBeDefined();
+  });
+
+  it('should attach the user of a valid token to the request', async () => {
+    mockPayload({});
+    const request = withToken();
+
+    await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+    expect(request['user']).toEqual(user);
+    expect(request['tokenPayload'].jti).toBe('token-id');
+  });
+
+  it('should reject a request without a token', async () => {
+    await expect(
+      guard.canActivate(createContext({ headers: {}, query: {} })),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reject a revoked token', async () => {
+    mockPayload({});
+    cache.exists.mockResolvedValue(1);
+
+    await expect(guard.canActivate(createContext(withToken()))).rejects.toThrow(
+      'Token revoked',
+    );
+    expect(cache.exists).toHaveBeenCalledWith('revoked-token-token-id');
+  });
+
+  it('should reject a token issued before the user signed out of every device', async () => {
+    mockPayload({});
+    prisma.user.findUnique.mockResolvedValue({
+      ...user,
+      tokensValidAfter: new Date((issuedAt + 1) * 1000),
+    });
+
+    await expect(guard.canActivate(createContext(withToken()))).rejects.toThrow(
+      'Token revoked',
+    );
+  });
+
+  it('should accept a token issued after the user signed out of every device', async () => {
+    mockPayload({});
+    prisma.user.findUnique.mockResolvedValue({
+      ...user,
+      tokensValidAfter: new Date(issuedAt * 1000),
+    });
+
+    await expect(guard.canActivate(createContext(withToken()))).resolves.toBe(
+      true,
+    );
+  });
+
+  it('should reject a token whose session was deleted', async () => {
+    mockPayload({});
+    prisma.session.findUnique.mockResolvedValue(null);
+
+    await expect(guard.canActivate(createContext(withToken()))).rejects.toThrow(
+      'Token revoked',
+    );
+  });
+
+  it('should reject a token without a user id', async () => {
+    mockPayload({ id: undefined, purpose: 'magic-link' } as any);
+
+    await expect(guard.canActivate(createContext(withToken()))).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should reject a token of a deleted user', async () => {
+    mockPayload({});
+    prisma.user.findUnique.mockResolvedValue(null);
+
+    await expect(guard.canActivate(createContext(withToken()))).rejects.toThrow(
+      ForbiddenException,
+    );
   });
 });
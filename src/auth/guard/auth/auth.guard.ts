@@ -4,21 +4,22 @@ import {
   ForbiddenException,
   Injectable,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
 import { Request } from 'express';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../../../decorators/public.decorator';
 import { PrismaService } from '../../../prisma/prisma.service';
-import { User } from '@prisma/client';
+import { ROLES_KEY } from '../../../decorators/roles.decorator';
+import { User, UserRole } from '@prisma/client';
+import { SessionsService, TokenPayload } from '../../service/sessions.service';
 
 const X_E2E_USER_EMAIL = 'x-e2e-user-email';
 
 @Injectable()
 export class AuthGuard implements CanActivate {
   constructor(
-    private readonly jwtService: JwtService,
     private readonly prisma: PrismaService,
     private reflector: Reflector,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -34,6 +35,7 @@ export class AuthGuard implements CanActivate {
     }
 
     let user: User | null = null;
+    let payload: TokenPayload | undefined;
     const request = context.switchToHttp().getRequest();
 
     // In case the environment is e2e, we want to authenticate the user using the email
@@ -54,19 +56,9 @@ export class AuthGuard implements CanActivate {
       if (!token) {
         throw new ForbiddenException();
       }
-      try {
-        const payload = await this.jwtService.verifyAsync(token, {
-          secret: process.env.JWT_SECRET,
-        });
-
-        user = await this.prisma.user.findUnique({
-          where: {
-            id: payload['id'],
-          },
-        });
-      } catch {
-        throw new ForbiddenException();
-      }
+
+      // The token is checked against the revocations of the user too.
+      ({ payload, user } = await this.sessionsService.verifyAccessToken(token));
 
       // Check if the user's email is verified.
       if (!user.isEmailVerified) {
@@ -74,8 +66,19 @@ export class AuthGuard implements CanActivate {
       }
     }
 
-    // We attach the user to the request object.
+    // Routes marked with the @Roles() decorator are restricted to users having one of the roles.
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (roles && !roles.includes(user?.role)) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    // We attach the user and the token payload to the request object.
     request['user'] = user;
+    request['tokenPayload'] = payload;
     return true;
   }
 
@@ -10,6 +10,11 @@ import { AppleOAuthStrategyFactory } from '../../oauth/factory/apple/apple-strat
 import { ConfigService } from '@nestjs/config';
 import { MailService } from '../../mail/mail.service';
 import { GithubOAuthStrategyFactory } from '../..//oauth/factory/github/github-strategy.factory';
+import { SessionsService } from './sessions.service';
+import { REDIS_CLIENT } from '../../provider/redis.provider';
+import { VerificationAttemptsService } from './verification-attempts.service';
+import { MagicLinkService } from './magic-link.service';
+import { TwoFactorService } from './two-factor.service';
 
 describe('AuthService', () => {
   let service: AuthService;
@@ -18,6 +23,10 @@ describe('AuthService', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
+        SessionsService,
+        VerificationAttemptsService,
+        MagicLinkService,
+        TwoFactorService,
         PrismaService,
         JwtService,
         GoogleOAuthStrategyFactory,
@@ -25,8 +34,12 @@ describe('AuthService', () => {
         FacebookOAuthStrategyFactory,
         AppleOAuthStrategyFactory,
         GithubOAuthStrategyFactory,
-        ConfigService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ JWT_SECRET: 'secret' }),
+        },
         MailService,
+        { provide: REDIS_CLIENT, useValue: {} },
       ],
     })
       .overrideProvider(MailService)
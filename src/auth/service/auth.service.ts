@@ -5,34 +5,68 @@ import {
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
 import { PrismaService } from '../../prisma/prisma.service';
-import { JwtService } from '@nestjs/jwt';
 import { AuthType, SocialAccountType, User } from '@prisma/client';
 import { SignupDto } from '../dto/signup.dto';
 import { MailService } from '../../mail/mail.service';
-import { SigninDto } from '../dto/signin.dto';
+import { SignInMethod, SigninDto } from '../dto/signin.dto';
+import { AuthTokensDto } from '../dto/session.dto';
+import {
+  SessionClient,
+  SessionsService,
+  getSessionClient,
+} from './sessions.service';
+import {
+  MAX_CODE_ATTEMPTS,
+  VerificationAttemptsService,
+} from './verification-attempts.service';
+import { MagicLinkService } from './magic-link.service';
+import { TwoFactorService } from './two-factor.service';
+import {
+  TwoFactorChallengeDto,
+  TwoFactorSignInDto,
+} from '../dto/two-factor.dto';
 
 @Injectable()
 export class AuthService {
+  private readonly codeHashKey: string;
+
   constructor(
     private readonly prisma: PrismaService,
-    private jwt: JwtService,
     private mailService: MailService,
-  ) {}
+    private sessionsService: SessionsService,
+    private verificationAttempts: VerificationAttemptsService,
+    private magicLinkService: MagicLinkService,
+    private twoFactorService: TwoFactorService,
+    configService: ConfigService,
+  ) {
+    // throws at startup without a secret, a known key would let anyone recompute the hashes
+    this.codeHashKey = configService.getOrThrow<string>('JWT_SECRET');
+  }
+
+  // the codes are keyed with the JWT secret, so a leaked table can't be brute-forced offline
+  private hashVerificationCode(email: string, code: string) {
+    return createHmac('sha256', this.codeHashKey)
+      .update(`${email}:${code}`)
+      .digest('hex');
+  }
 
-  async signUp(dto: SignupDto) {
+  async signUp(dto: SignupDto, ip?: string) {
     const user = await this.createUserIfNotExists(
       dto.email,
       AuthType.EMAIL,
       null,
       null,
       true,
+      ip,
     );
 
     return user;
   }
 
-  async signIn(dto: SigninDto) {
+  async signIn(dto: SigninDto, ip?: string) {
     const user = await this.prisma.user.findUnique({
       where: {
         email: dto.email,
@@ -47,7 +81,16 @@ export class AuthService {
       throw new NotFoundException('User not found');
     }
 
-    await this.sendEmailVerificationCode(dto.email);
+    if (dto.method === SignInMethod.MAGIC_LINK) {
+      const deviceBinding = await this.magicLinkService.sendMagicLink(
+        dto.email,
+        dto.appUrl,
+        ip,
+      );
+      return { ...user, deviceBinding };
+    }
+
+    await this.sendEmailVerificationCode(dto.email, ip);
     return user;
   }
 
@@ -64,11 +107,11 @@ export class AuthService {
       false,
     );
 
-    const token = await this.generateToken(user);
+    const tokens = await this.generateTokens(user, getSessionClient(req));
 
     return {
       ...user,
-      token,
+      ...tokens,
     };
   }
 
@@ -107,11 +150,11 @@ export class AuthService {
       );
     }
 
-    const token = await this.generateToken(user);
+    const tokens = await this.generateTokens(user, getSessionClient(req));
 
     return {
       ...user,
-      token,
+      ...tokens,
     };
   }
 
@@ -146,11 +189,11 @@ export class AuthService {
       );
     }
 
-    const token = await this.generateToken(user);
+    const tokens = await this.generateTokens(user, getSessionClient(req));
 
     return {
       ...user,
-      token,
+      ...tokens,
     };
   }
 
@@ -164,11 +207,11 @@ export class AuthService {
       false,
     );
 
-    const token = await this.generateToken(user);
+    const tokens = await this.generateTokens(user, getSessionClient(req));
 
     return {
       ...user,
-      token,
+      ...tokens,
     };
   }
 
@@ -199,24 +242,26 @@ export class AuthService {
       await this.connectSocialPlatform(SocialAccountType.GITHUB, user.id, req);
     }
 
-    const token = await this.generateToken(user);
+    const tokens = await this.generateTokens(user, getSessionClient(req));
 
     return {
       ...user,
-      token,
+      ...tokens,
     };
   }
 
-  async resendEmailVerificationCode(email: string) {
+  async resendEmailVerificationCode(email: string, ip?: string) {
     const user = await this.findUserByEmail(email);
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
-    await this.sendEmailVerificationCode(email);
+    await this.sendEmailVerificationCode(email, ip);
   }
 
-  async verifyEmail(email: string, code: string) {
+  async verifyEmail(email: string, code: string, client: SessionClient) {
+    await this.verificationAttempts.checkCanVerify(email, client.ipAddress);
+
     const verificationCode = await this.prisma.verificationCode.findUnique({
       where: {
         email,
@@ -227,7 +272,37 @@ export class AuthService {
       throw new NotFoundException('Code not found');
     }
 
-    if (verificationCode.code !== code) {
+    const isValidCode = timingSafeEqual(
+      Buffer.from(verificationCode.code),
+      Buffer.from(this.hashVerificationCode(email, code)),
+    );
+    if (!isValidCode) {
+      await this.verificationAttempts.recordFailedVerification(
+        email,
+        client.ipAddress,
+      );
+
+      const { attempts } = await this.prisma.verificationCode.update({
+        where: {
+          email,
+        },
+        data: {
+          attempts: { increment: 1 },
+        },
+      });
+
+      // The code can't be guessed anymore, a new one has to be requested
+      if (attempts >= MAX_CODE_ATTEMPTS) {
+        await this.prisma.verificationCode.delete({
+          where: {
+            email,
+          },
+        });
+        throw new BadRequestException(
+          'Too many invalid codes, request a new code',
+        );
+      }
+
       throw new BadRequestException('Invalid code');
     }
 
@@ -235,12 +310,62 @@ export class AuthService {
       throw new BadRequestException('Code expired');
     }
 
-    const user = await this.prisma.user.update({
+    const user = await this.markEmailVerified(email);
+
+    await this.prisma.verificationCode.delete({
       where: {
         email,
       },
-      data: {
-        isEmailVerified: true,
+    });
+
+    await this.verificationAttempts.resetFailedVerifications(email);
+    await this.mailService.sendEmailVerifiedEmail(email);
+
+    const tokens = await this.generateTokens(user, client);
+
+    return {
+      ...user,
+      ...tokens,
+    };
+  }
+
+  async signInWithMagicLink(
+    token: string,
+    deviceBinding: string | undefined,
+    client: SessionClient,
+  ) {
+    const email = await this.magicLinkService.consumeMagicLink(
+      token,
+      deviceBinding,
+    );
+
+    if (!(await this.findUserByEmail(email))) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Opening the link proves the email belongs to the user
+    const user = await this.markEmailVerified(email);
+    const tokens = await this.generateTokens(user, client);
+
+    return {
+      ...user,
+      ...tokens,
+    };
+  }
+
+  async completeTwoFactorSignIn(
+    dto: TwoFactorSignInDto,
+    client: SessionClient,
+  ) {
+    const userId = await this.twoFactorService.completeChallenge(
+      dto.twoFactorToken,
+      dto.code,
+      client.ipAddress,
+    );
+
+    const user = await this.prisma.user.findUnique({
+      where: {
+        id: userId,
       },
       select: {
         id: true,
@@ -252,28 +377,48 @@ export class AuthService {
       },
     });
 
-    await this.prisma.verificationCode.delete({
-      where: {
-        email,
-      },
-    });
-
-    await this.mailService.sendEmailVerifiedEmail(email);
+    // the user was deleted while signing in
+    if (!user) {
+      throw new ForbiddenException('Invalid two-factor token');
+    }
 
-    const token = await this.generateToken(user);
+    const tokens = await this.sessionsService.createSession(user.id, {
+      ...client,
+      deviceName: dto.deviceName,
+    });
 
     return {
       ...user,
-      token,
+      ...tokens,
     };
   }
 
+  private async markEmailVerified(email: string) {
+    return await this.prisma.user.update({
+      where: {
+        email,
+      },
+      data: {
+        isEmailVerified: true,
+      },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        profilePictureUrl: true,
+        authType: true,
+        isEmailVerified: true,
+      },
+    });
+  }
+
   private async createUserIfNotExists(
     email: string,
     authType: AuthType,
     name?: string,
     profilePictureUrl?: string,
     throwErrorIfUserExists?: boolean,
+    ip?: string,
   ) {
     email = email.toLowerCase();
 
@@ -304,21 +449,31 @@ export class AuthService {
         },
       });
 
-      await this.sendEmailVerificationCode(email);
+      await this.sendEmailVerificationCode(email, ip);
     } else if (!user.isEmailVerified) {
-      await this.sendEmailVerificationCode(email);
+      await this.sendEmailVerificationCode(email, ip);
     }
 
     return user;
   }
 
-  private async generateToken(user: Partial<User>) {
-    // We send the token only if the email is verified
+  private async generateTokens(
+    user: Partial<User>,
+    client: SessionClient,
+  ): Promise<Partial<AuthTokensDto & TwoFactorChallengeDto>> {
+    // We send the tokens only if the email is verified
     if (!user.isEmailVerified) {
-      return;
+      return {};
     }
 
-    return await this.jwt.signAsync({ id: user.id });
+    // With two-factor authentication, the tokens are only sent once a code is verified
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return {
+        twoFactorToken: await this.twoFactorService.createChallenge(user.id),
+      };
+    }
+
+    return await this.sessionsService.createSession(user.id, client);
   }
 
   private async findUserByEmail(email: string) {
@@ -338,25 +493,12 @@ export class AuthService {
     });
   }
 
-  private async sendEmailVerificationCode(email: string) {
-    // Generate the code
-    let code: string;
+  private async sendEmailVerificationCode(email: string, ip?: string) {
+    await this.verificationAttempts.checkCanSendCode(email, ip);
 
-    // Generate a random 6-digit code. It needs to be unique
-    while (true) {
-      code = Math.floor(100000 + Math.random() * 900000).toString();
-
-      // Check if the code is already in use
-      const existingCode = await this.prisma.verificationCode.findUnique({
-        where: {
-          code,
-        },
-      });
-
-      if (!existingCode) {
-        break;
-      }
-    }
+    // Generate a random 6-digit code
+    const code = randomInt(100000, 1000000).toString();
+    const hashedCode = this.hashVerificationCode(email, code);
 
     // Set the expiration date to 10 minutes from now
     const expiresAt = new Date(Date.now() + 1000 * 60 * 10); // 10 minutes
@@ -367,12 +509,13 @@ export class AuthService {
         email,
       },
       update: {
-        code,
+        code: hashedCode,
         expiresAt,
+        attempts: 0,
       },
       create: {
         email,
-        code,
+        code: hashedCode,
         expiresAt,
       },
     });
@@ -384,7 +527,6 @@ export class AuthService {
     userId: string,
     req: any,
   ) {
-
     const socialAcc = await this.prisma.socialAccount.findMany({
       where: { socialId: req.user.id, platform },
     });
@@ -417,18 +559,7 @@ export class AuthService {
   }
 
   async getUserFromToken(token: string) {
-    try {
-      const payload = await this.jwt.verifyAsync(token, {
-        secret: process.env.JWT_SECRET,
-      });
-
-      return await this.prisma.user.findUnique({
-        where: {
-          id: payload['id'],
-        },
-      });
-    } catch {
-      throw new ForbiddenException();
-    }
+    const { user } = await this.sessionsService.verifyAccessToken(token);
+    return user;
   }
 }
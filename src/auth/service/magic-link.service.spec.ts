@@ -0,0 +1,34 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MagicLinkService } from './magic-link.service';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from '../../mail/mail.service';
+import { mockDeep } from 'jest-mock-extended';
+import { VerificationAttemptsService } from './verification-attempts.service';
+import { REDIS_CLIENT } from '../../provider/redis.provider';
+
+describe('MagicLinkService', () => {
+  let service: MagicLinkService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MagicLinkService,
+        JwtService,
+        ConfigService,
+        MailService,
+        VerificationAttemptsService,
+        { provide: REDIS_CLIENT, useValue: {} },
+      ],
+    })
+      .overrideProvider(MailService)
+      .useValue(mockDeep<MailService>())
+      .compile();
+
+    service = module.get<MagicLinkService>(MagicLinkService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import Redis from 'ioredis';
+import { MailService } from '../../mail/mail.service';
+import { REDIS_CLIENT } from '../../provider/redis.provider';
+import { VerificationAttemptsService } from './verification-attempts.service';
+
+// header the device that requested a magic link proves it with
+export const DEVICE_BINDING_HEADER = 'x-device-binding';
+
+const MAGIC_LINK_TTL_SECONDS = 60 * 15; // 15 minutes
+
+// keeps access tokens from being accepted as magic links and the other way around
+const MAGIC_LINK_PURPOSE = 'magic-link';
+
+type MagicLinkPayload = {
+  email: string;
+  purpose: string;
+  bnd: string;
+  jti: string;
+  exp: number;
+};
+
+const hashBinding = (binding: string) =>
+  createHash('sha256').update(binding).digest('hex');
+
+@Injectable()
+export class MagicLinkService {
+  private readonly appUrls: string[];
+
+  constructor(
+    private readonly jwt: JwtService,
+    private readonly mailService: MailService,
+    private readonly verificationAttempts: VerificationAttemptsService,
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly cache: Redis,
+  ) {
+    this.appUrls = (
+      this.configService.get<string>('MAGIC_LINK_APP_URLS') ??
+      'https://culero.com/auth/magic'
+    )
+      .split(',')
+      .map((url) => url.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Email a magic link opening one of the allowed app URLs. The returned device binding
+   * has to be sent along with the link, so it only works on the device that requested it.
+   */
+  async sendMagicLink(
+    email: string,
+    appUrl?: string,
+    ip?: string,
+  ): Promise<string> {
+    const linkUrl = appUrl ?? this.appUrls[0];
+    if (!this.appUrls.includes(linkUrl)) {
+      throw new BadRequestException('App URL not allowed');
+    }
+
+    await this.verificationAttempts.checkCanSendCode(email, ip);
+
+    const binding = randomBytes(32).toString('base64url');
+    const token = await this.jwt.signAsync(
+      { email, purpose: MAGIC_LINK_PURPOSE, bnd: hashBinding(binding) },
+      { jwtid: randomUUID(), expiresIn: MAGIC_LINK_TTL_SECONDS },
+    );
+
+    const link = new URL(linkUrl);
+    link.searchParams.set('token', token);
+    await this.mailService.sendMagicLinkEmail(email, link.toString());
+
+    return binding;
+  }
+
+  /**
+   * Check a magic link opened on the device holding the binding, and get the email it
+   * was sent to. A link can be used once.
+   */
+  async consumeMagicLink(token: string, binding?: string): Promise<string> {
+    let payload: MagicLinkPayload;
+    try {
+      payload = await this.jwt.verifyAsync<MagicLinkPayload>(token);
+    } catch {
+      throw new ForbiddenException('Invalid magic link');
+    }
+
+    if (payload.purpose !== MAGIC_LINK_PURPOSE || !payload.jti) {
+      throw new ForbiddenException('Invalid magic link');
+    }
+
+    const expectedBinding = Buffer.from(payload.bnd ?? '');
+    const actualBinding = Buffer.from(binding ? hashBinding(binding) : '');
+    const isSameDevice =
+      expectedBinding.length === actualBinding.length &&
+      timingSafeEqual(expectedBinding, actualBinding);
+    if (!isSameDevice) {
+      throw new ForbiddenException(
+        'The magic link has to be opened on the device that requested it',
+      );
+    }
+
+    // the link is remembered as used until it expires anyway
+    const ttl = Math.max(payload.exp - Math.floor(Date.now() / 1000), 1);
+    const isFirstUse = await this.cache.set(
+      `magic-link-used-${payload.jti}`,
+      1,
+      'EX',
+      ttl,
+      'NX',
+    );
+    if (!isFirstUse) {
+      throw new ForbiddenException('Magic link already used');
+    }
+
+    return payload.email;
+  }
+}
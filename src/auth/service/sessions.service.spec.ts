@@ -0,0 +1,30 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SessionsService } from './sessions.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockDeep } from 'jest-mock-extended';
+import { JwtService } from '@nestjs/jwt';
+import { REDIS_CLIENT } from '../../provider/redis.provider';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        PrismaService,
+        JwtService,
+        { provide: REDIS_CLIENT, useValue: {} },
+      ],
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockDeep<PrismaService>())
+      .compile();
+
+    service = module.get<SessionsService>(SessionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Session, User } from '@prisma/client';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { Request } from 'express';
+import Redis from 'ioredis';
+import { PrismaService } from '../../prisma/prisma.service';
+import { REDIS_CLIENT } from '../../provider/redis.provider';
+import { AuthTokensDto, SessionDto } from '../dto/session.dto';
+
+// every refresh pushes the expiration back, so only sessions unused for this long expire
+const REFRESH_TOKEN_TTL_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
+
+// the device a session is created or refreshed from
+export type SessionClient = {
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+};
+
+export const getSessionClient = (req: Request, deviceName?: string) => ({
+  deviceName,
+  ipAddress: req.ip,
+  userAgent: req.headers?.['user-agent'],
+});
+
+// claims of the access tokens, attached to the request by the auth guard
+export type TokenPayload = {
+  id: User['id'];
+  sid?: Session['id'];
+  jti?: string;
+  iat?: number;
+  exp?: number;
+};
+
+// revoked access tokens are kept in the denylist until they expire
+export const getRevokedTokenKey = (jti: string) => `revoked-token-${jti}`;
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwt: JwtService,
+    @Inject(REDIS_CLIENT) private readonly cache: Redis,
+  ) {}
+
+  // the refresh token starts with the session id, so a reused token can be traced back to its session
+  private async issueTokens(session: Session, secret: string) {
+    return {
+      token: await this.jwt.signAsync(
+        { id: session.userId, sid: session.id },
+        { jwtid: randomUUID() },
+      ),
+      refreshToken: `${session.id}.${secret}`,
+    };
+  }
+
+  /**
+   * Verify an access token and get its user. Tokens revoked by signing out, issued before
+   * the user signed out of every device, or whose session was deleted, are rejected.
+   */
+  async verifyAccessToken(
+    token: string,
+  ): Promise<{ payload: TokenPayload; user: User }> {
+    let payload: TokenPayload;
+    let user: User | null;
+    try {
+      payload = await this.jwt.verifyAsync<TokenPayload>(token, {
+        secret: process.env.JWT_SECRET,
+      });
+
+      // Magic links and two-factor challenges are signed too, but aren't access tokens
+      if (!payload.id) {
+        throw new ForbiddenException();
+      }
+
+      user = await this.prisma.user.findUnique({
+        where: { id: payload.id },
+      });
+    } catch {
+      throw new ForbiddenException();
+    }
+
+    if (!user) {
+      throw new ForbiddenException();
+    }
+
+    // deleting a session signs its device out, along with the access tokens it was issued
+    const isRevoked =
+      (payload.jti &&
+        (await this.cache.exists(getRevokedTokenKey(payload.jti)))) ||
+      (user.tokensValidAfter &&
+        payload.iat * 1000 < user.tokensValidAfter.getTime()) ||
+      (payload.sid &&
+        !(await this.prisma.session.findUnique({
+          where: { id: payload.sid },
+          select: { id: true },
+        })));
+    if (isRevoked) {
+      throw new ForbiddenException('Token revoked');
+    }
+
+    return { payload, user };
+  }
+
+  private transformSession(
+    session: Session,
+    currentSessionId?: Session['id'],
+  ): SessionDto {
+    return {
+      id: session.id,
+      deviceName: session.deviceName ?? undefined,
+      ipAddress: session.ipAddress ?? undefined,
+      userAgent: session.userAgent ?? undefined,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      isCurrent: session.id === currentSessionId,
+    };
+  }
+
+  /**
+   * Start a session for a signed in user and get its first tokens
+   */
+  async createSession(
+    userId: User['id'],
+    client: SessionClient,
+  ): Promise<AuthTokensDto> {
+    const secret = randomBytes(32).toString('base64url');
+    const session = await this.prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: hashToken(secret),
+        ...client,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      },
+    });
+
+    return this.issueTokens(session, secret);
+  }
+
+  /**
+   * Exchange a refresh token for new tokens. Refresh tokens can be used once: presenting
+   * the one that was exchanged last means it was stolen, so the whole session is revoked.
+   * Other wrong tokens are only rejected, the session id alone can't sign a device out.
+   */
+  async refresh(
+    refreshToken: string,
+    client: SessionClient,
+  ): Promise<AuthTokensDto> {
+    const [sessionId, secret] = refreshToken.split('.');
+    const session = secret
+      ? await this.prisma.session.findUnique({ where: { id: sessionId } })
+      : null;
+
+    if (!session || session.expiresAt < new Date()) {
+      throw new ForbiddenException('Invalid refresh token');
+    }
+
+    const newSecret = randomBytes(32).toString('base64url');
+    // the current hash is part of the condition, so two concurrent refreshes can't both succeed
+    const { count } = await this.prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: hashToken(secret) },
+      data: {
+        refreshTokenHash: hashToken(newSecret),
+        previousRefreshTokenHash: hashToken(secret),
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+        deviceName: client.deviceName ?? session.deviceName,
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      },
+    });
+
+    if (count === 0) {
+      // read again, the token may have been exchanged since the session was read
+      const isReused = await this.prisma.session.count({
+        where: {
+          id: session.id,
+          previousRefreshTokenHash: hashToken(secret),
+        },
+      });
+
+      if (isReused) {
+        await this.prisma.session.deleteMany({ where: { id: session.id } });
+        throw new ForbiddenException(
+          'Refresh token already used, the session was revoked',
+        );
+      }
+
+      throw new ForbiddenException('Invalid refresh token');
+    }
+
+    return this.issueTokens(session, newSecret);
+  }
+
+  async getSessions(
+    userId: User['id'],
+    currentSessionId?: Session['id'],
+  ): Promise<SessionDto[]> {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((s) => this.transformSession(s, currentSessionId));
+  }
+
+  async deleteSession(userId: User['id'], sessionId: Session['id']) {
+    const { count } = await this.prisma.session.deleteMany({
+      where: { id: sessionId, userId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  // sign out of every other device
+  async deleteOtherSessions(
+    userId: User['id'],
+    currentSessionId?: Session['id'],
+  ) {
+    await this.prisma.session.deleteMany({
+      where: {
+        userId,
+        ...(currentSessionId ? { NOT: { id: currentSessionId } } : {}),
+      },
+    });
+  }
+
+  /**
+   * Sign out of the device of the access token: the token is revoked and its session deleted
+   */
+  async logout(payload?: TokenPayload) {
+    if (payload?.jti && payload.exp) {
+      const ttl = payload.exp - Math.floor(Date.now() / 1000);
+      if (ttl > 0) {
+        await this.cache.set(getRevokedTokenKey(payload.jti), 1, 'EX', ttl);
+      }
+    }
+
+    if (payload?.sid) {
+      await this.prisma.session.deleteMany({ where: { id: payload.sid } });
+    }
+  }
+
+  /**
+   * Sign out of every device: all sessions are deleted and every access token issued
+   * until now is rejected
+   */
+  async logoutAll(userId: User['id']) {
+    // JWT issue dates are in seconds, tokens issued later in the same second stay valid
+    const tokensValidAfter = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { tokensValidAfter },
+      }),
+      this.prisma.session.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async deleteExpiredSessions() {
+    await this.prisma.session.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+  }
+}
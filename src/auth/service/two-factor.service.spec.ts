@@ -0,0 +1,32 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TwoFactorService } from './two-factor.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockDeep } from 'jest-mock-extended';
+import { JwtService } from '@nestjs/jwt';
+import { VerificationAttemptsService } from './verification-attempts.service';
+import { REDIS_CLIENT } from '../../provider/redis.provider';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        PrismaService,
+        JwtService,
+        VerificationAttemptsService,
+        { provide: REDIS_CLIENT, useValue: {} },
+      ],
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockDeep<PrismaService>())
+      .compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+});
@@ -0,0 +1,224 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { TwoFactorAuth, User } from '@prisma/client';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { generateTotpSecret, getTotpUri, verifyTotp } from '../../utils/totp';
+import { RecoveryCodesDto, TwoFactorSetupDto } from '../dto/two-factor.dto';
+import { VerificationAttemptsService } from './verification-attempts.service';
+
+const TOTP_ISSUER = 'Culero';
+const RECOVERY_CODES_COUNT = 10;
+
+// the second sign in step has to be completed within this time
+const CHALLENGE_TTL_SECONDS = 60 * 5; // 5 minutes
+
+// keeps access tokens from being accepted as challenges and the other way around
+const CHALLENGE_PURPOSE = 'two-factor';
+
+type ChallengePayload = {
+  uid: User['id'];
+  purpose: string;
+};
+
+// recovery codes are typed by hand, so the case and the dash don't matter
+const hashRecoveryCode = (code: string) =>
+  createHash('sha256')
+    .update(code.toLowerCase().replace(/-/g, ''))
+    .digest('hex');
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwt: JwtService,
+    private readonly verificationAttempts: VerificationAttemptsService,
+  ) {}
+
+  private generateRecoveryCodes() {
+    return Array.from({ length: RECOVERY_CODES_COUNT }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private async getEnabledTwoFactor(userId: User['id']) {
+    const twoFactor = await this.prisma.twoFactorAuth.findUnique({
+      where: { userId },
+    });
+
+    if (!twoFactor?.enabledAt) {
+      throw new NotFoundException('Two-factor authentication is not enabled');
+    }
+
+    return twoFactor;
+  }
+
+  // a code of the authenticator app is accepted once, a recovery code is used up
+  private async useCode(twoFactor: TwoFactorAuth, code: string) {
+    const step = verifyTotp(twoFactor.secret, code);
+    if (step !== null) {
+      const { count } = await this.prisma.twoFactorAuth.updateMany({
+        where: {
+          userId: twoFactor.userId,
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+        },
+        data: { lastUsedStep: step },
+      });
+      return count > 0;
+    }
+
+    const hashedCode = hashRecoveryCode(code);
+    if (!twoFactor.enabledAt || !twoFactor.recoveryCodes.includes(hashedCode)) {
+      return false;
+    }
+
+    // the codes must be unchanged since they were read, so a code can't be used twice and
+    // another code used in the meantime isn't restored
+    const { count } = await this.prisma.twoFactorAuth.updateMany({
+      where: {
+        userId: twoFactor.userId,
+        recoveryCodes: { has: hashedCode, equals: twoFactor.recoveryCodes },
+      },
+      data: {
+        recoveryCodes: twoFactor.recoveryCodes.filter((c) => c !== hashedCode),
+      },
+    });
+    return count > 0;
+  }
+
+  // wrong codes lock out the user and the IP, like the email verification codes. The user
+  // is counted by id since not every user has an email.
+  private async checkCode(
+    user: Pick<User, 'id'>,
+    twoFactor: TwoFactorAuth,
+    code: string,
+    ip?: string,
+  ) {
+    await this.verificationAttempts.checkCanVerify(user.id, ip);
+
+    if (!(await this.useCode(twoFactor, code))) {
+      await this.verificationAttempts.recordFailedVerification(user.id, ip);
+      throw new BadRequestException('Invalid code');
+    }
+
+    await this.verificationAttempts.resetFailedVerifications(user.id);
+  }
+
+  async isEnabled(userId: User['id']) {
+    const twoFactor = await this.prisma.twoFactorAuth.findUnique({
+      where: { userId },
+      select: { enabledAt: true },
+    });
+
+    return !!twoFactor?.enabledAt;
+  }
+
+  /**
+   * Generate a new secret for the authenticator app. Two-factor authentication is only
+   * enabled once a code of the app is verified.
+   */
+  async setup(user: User): Promise<TwoFactorSetupDto> {
+    if (await this.isEnabled(user.id)) {
+      throw new ConflictException('Two-factor authentication already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.twoFactorAuth.upsert({
+      where: { userId: user.id },
+      update: { secret, lastUsedStep: null },
+      create: { userId: user.id, secret },
+    });
+
+    return {
+      secret,
+      otpauthUri: getTotpUri(secret, user.email, TOTP_ISSUER),
+    };
+  }
+
+  /**
+   * Enable two-factor authentication with a first code of the authenticator app, and get
+   * the recovery codes. Only their hashes are stored.
+   */
+  async enable(
+    user: User,
+    code: string,
+    ip?: string,
+  ): Promise<RecoveryCodesDto> {
+    const twoFactor = await this.prisma.twoFactorAuth.findUnique({
+      where: { userId: user.id },
+    });
+
+    if (!twoFactor) {
+      throw new NotFoundException('Two-factor authentication not set up');
+    }
+
+    if (twoFactor.enabledAt) {
+      throw new ConflictException('Two-factor authentication already enabled');
+    }
+
+    await this.checkCode(user, twoFactor, code, ip);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.twoFactorAuth.update({
+      where: { userId: user.id },
+      data: {
+        enabledAt: new Date(),
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    return { recoveryCodes };
+  }
+
+  async disable(user: User, code: string, ip?: string) {
+    const twoFactor = await this.getEnabledTwoFactor(user.id);
+
+    await this.checkCode(user, twoFactor, code, ip);
+
+    await this.prisma.twoFactorAuth.delete({ where: { userId: user.id } });
+  }
+
+  /**
+   * Get a short lived token for the second sign in step, exchanged for the tokens with
+   * a code
+   */
+  async createChallenge(userId: User['id']): Promise<string> {
+    return this.jwt.signAsync(
+      { uid: userId, purpose: CHALLENGE_PURPOSE },
+      { jwtid: randomUUID(), expiresIn: CHALLENGE_TTL_SECONDS },
+    );
+  }
+
+  /**
+   * Check the code sent for a challenge, and get the user signing in
+   */
+  async completeChallenge(
+    twoFactorToken: string,
+    code: string,
+    ip?: string,
+  ): Promise<User['id']> {
+    let payload: ChallengePayload;
+    try {
+      payload = await this.jwt.verifyAsync<ChallengePayload>(twoFactorToken);
+    } catch {
+      throw new ForbiddenException('Invalid two-factor token');
+    }
+
+    if (payload.purpose !== CHALLENGE_PURPOSE) {
+      throw new ForbiddenException('Invalid two-factor token');
+    }
+
+    const twoFactor = await this.getEnabledTwoFactor(payload.uid);
+
+    await this.checkCode({ id: payload.uid }, twoFactor, code, ip);
+
+    return payload.uid;
+  }
+}
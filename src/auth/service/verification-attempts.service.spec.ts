@@ -0,0 +1,64 @@
+import { HttpException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { VerificationAttemptsService } from './verification-attempts.service';
+import { REDIS_CLIENT } from '../../provider/redis.provider';
+
+describe('VerificationAttemptsService', () => {
+  let service: VerificationAttemptsService;
+  let cache: {
+    set: jest.Mock;
+    incr: jest.Mock;
+    expire: jest.Mock;
+    ttl: jest.Mock;
+    del: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    cache = {
+      set: jest.fn().mockResolvedValue('OK'),
+      incr: jest.fn().mockResolvedValue(1),
+      expire: jest.fn(),
+      ttl: jest.fn().mockResolvedValue(30),
+      del: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VerificationAttemptsService,
+        { provide: REDIS_CLIENT, useValue: cache },
+      ],
+    }).compile();
+
+    service = module.get<VerificationAttemptsService>(
+      VerificationAttemptsService,
+    );
+  });
+
+  it('should count the codes sent from an IP', async () => {
+    await service.checkCanSendCode('jane@example.com', '127.0.0.1');
+
+    expect(cache.incr).toHaveBeenCalledWith(
+      'verification-code-sends-127.0.0.1',
+    );
+  });
+
+  it('should not count the codes refused by the cooldown against the IP', async () => {
+    cache.set.mockResolvedValue(null);
+
+    await expect(
+      service.checkCanSendCode('jane@example.com', '127.0.0.1'),
+    ).rejects.toThrow('A code was just sent, try again in 30 seconds');
+    expect(cache.incr).not.toHaveBeenCalled();
+  });
+
+  it('should not start the cooldown when the IP sent too many codes', async () => {
+    cache.incr.mockResolvedValue(11);
+
+    await expect(
+      service.checkCanSendCode('jane@example.com', '127.0.0.1'),
+    ).rejects.toThrow(HttpException);
+    expect(cache.del).toHaveBeenCalledWith(
+      'verification-code-cooldown-jane@example.com',
+    );
+  });
+});
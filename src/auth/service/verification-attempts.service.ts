@@ -0,0 +1,122 @@
+import { HttpException, HttpStatus, Inject, Injectable } from '@nestjs/common';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../provider/redis.provider';
+
+// wrong codes are counted over this window
+const FAILURES_WINDOW_SECONDS = 60 * 60 * 24; // 1 day
+
+// an account is locked out after this many wrong codes, an IP can try more since it may be shared
+const MAX_ACCOUNT_FAILURES = 5;
+const MAX_IP_FAILURES = 20;
+
+// every lockout lasts twice as long as the previous one
+const BASE_LOCKOUT_SECONDS = 60;
+const MAX_LOCKOUT_SECONDS = 60 * 60 * 24; // 1 day
+
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_CODES_PER_IP = 10;
+const CODES_PER_IP_WINDOW_SECONDS = 60 * 60; // 1 hour
+
+// a code is invalidated after this many wrong guesses
+export const MAX_CODE_ATTEMPTS = 5;
+
+@Injectable()
+export class VerificationAttemptsService {
+  constructor(@Inject(REDIS_CLIENT) private readonly cache: Redis) {}
+
+  private tooManyRequests(message: string) {
+    return new HttpException(message, HttpStatus.TOO_MANY_REQUESTS);
+  }
+
+  private async checkLockout(key: string) {
+    const ttl = await this.cache.ttl(`verify-lockout-${key}`);
+    if (ttl > 0) {
+      throw this.tooManyRequests(
+        `Too many wrong codes, try again in ${ttl} seconds`,
+      );
+    }
+  }
+
+  private async recordFailure(key: string, maxFailures: number) {
+    const failures = await this.cache.incr(`verify-failures-${key}`);
+    if (failures === 1) {
+      await this.cache.expire(
+        `verify-failures-${key}`,
+        FAILURES_WINDOW_SECONDS,
+      );
+    }
+
+    if (failures % maxFailures === 0) {
+      const lockouts = failures / maxFailures;
+      const duration = Math.min(
+        BASE_LOCKOUT_SECONDS * 2 ** (lockouts - 1),
+        MAX_LOCKOUT_SECONDS,
+      );
+      await this.cache.set(`verify-lockout-${key}`, 1, 'EX', duration);
+    }
+  }
+
+  /**
+   * Throw if the account or the IP is locked out after too many wrong codes. The account
+   * is the email for the email codes, and the user id for the two-factor codes.
+   */
+  async checkCanVerify(account: string, ip?: string) {
+    await this.checkLockout(`account-${account}`);
+    if (ip) {
+      await this.checkLockout(`ip-${ip}`);
+    }
+  }
+
+  async recordFailedVerification(account: string, ip?: string) {
+    await this.recordFailure(`account-${account}`, MAX_ACCOUNT_FAILURES);
+    if (ip) {
+      await this.recordFailure(`ip-${ip}`, MAX_IP_FAILURES);
+    }
+  }
+
+  // the lockout history of the account is forgotten once it's verified, the one of the IP is kept
+  async resetFailedVerifications(account: string) {
+    await this.cache.del(
+      `verify-failures-account-${account}`,
+      `verify-lockout-account-${account}`,
+    );
+  }
+
+  /**
+   * Throw if a code was sent to the email too recently, or too many codes were requested
+   * from the IP
+   */
+  async checkCanSendCode(email: string, ip?: string) {
+    // the cooldown is checked first, so the requests it rejects don't count for the IP
+    const cooldownKey = `verification-code-cooldown-${email}`;
+    const isCooledDown = await this.cache.set(
+      cooldownKey,
+      1,
+      'EX',
+      RESEND_COOLDOWN_SECONDS,
+      'NX',
+    );
+    if (!isCooledDown) {
+      const ttl = await this.cache.ttl(cooldownKey);
+      throw this.tooManyRequests(
+        `A code was just sent, try again in ${ttl} seconds`,
+      );
+    }
+
+    if (ip) {
+      const sends = await this.cache.incr(`verification-code-sends-${ip}`);
+      if (sends === 1) {
+        await this.cache.expire(
+          `verification-code-sends-${ip}`,
+          CODES_PER_IP_WINDOW_SECONDS,
+        );
+      }
+
+      if (sends > MAX_CODES_PER_IP) {
+        // no code is sent, so the email isn't cooling down
+        await this.cache.del(cooldownKey);
+        throw this.tooManyRequests('Too many codes requested, try again later');
+      }
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export class PaginationQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  @ApiProperty({
+    name: 'limit',
+    description: 'Maximum number of items to return',
+    required: false,
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    default: DEFAULT_PAGE_SIZE,
+  })
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  @ApiProperty({
+    name: 'cursor',
+    description:
+      'The "nextCursor" returned with the previous page. Omit it to get the first page.',
+    required: false,
+  })
+  cursor?: string;
+}
+
+export class PaginatedDto<T> {
+  items: T[];
+
+  @ApiProperty({
+    description:
+      'Cursor to request the next page with. Null if there are no more items.',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
@@ -0,0 +1,7 @@
+import { ValidationPipe } from '@nestjs/common';
+
+// query params arrive as strings, so they are always converted to the DTO types
+export const queryPipe = new ValidationPipe({
+  transform: true,
+  whitelist: true,
+});
@@ -3,6 +3,10 @@ import { ConnectionsController } from './connections.controller';
 import { ConnectionsService } from './connections.service';
 import { PrismaService } from '../../src/prisma/prisma.service';
 import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReputationService } from '../../src/reviews/reputation.service';
+import { RatingDimensionsService } from '../../src/reviews/rating-dimensions.service';
+import { ConfigService } from '@nestjs/config';
+import { REDIS_CLIENT } from '../../src/provider/redis.provider';
 
 describe('ConnectionsController', () => {
   let controller: ConnectionsController;
@@ -10,7 +14,18 @@ describe('ConnectionsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ConnectionsController],
-      providers: [ConnectionsService, PrismaService, NotificationsService],
+      providers: [
+        ConnectionsService,
+        PrismaService,
+        NotificationsService,
+        ReputationService,
+        RatingDimensionsService,
+        ConfigService,
+        {
+          provide: REDIS_CLIENT,
+          useValue: {},
+        },
+      ],
     }).compile();
 
     controller = module.get<ConnectionsController>(ConnectionsController);
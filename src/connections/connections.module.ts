@@ -2,9 +2,16 @@ import { Module } from '@nestjs/common';
 import { ConnectionsService } from './connections.service';
 import { ConnectionsController } from './connections.controller';
 import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReputationService } from '../../src/reviews/reputation.service';
+import { RatingDimensionsService } from '../../src/reviews/rating-dimensions.service';
 
 @Module({
-  providers: [ConnectionsService, NotificationsService],
+  providers: [
+    ConnectionsService,
+    NotificationsService,
+    ReputationService,
+    RatingDimensionsService,
+  ],
   controllers: [ConnectionsController],
 })
 export class ConnectionsModule {}
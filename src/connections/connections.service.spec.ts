@@ -2,13 +2,28 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConnectionsService } from './connections.service';
 import { PrismaService } from '../../src/prisma/prisma.service';
 import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReputationService } from '../../src/reviews/reputation.service';
+import { RatingDimensionsService } from '../../src/reviews/rating-dimensions.service';
+import { ConfigService } from '@nestjs/config';
+import { REDIS_CLIENT } from '../../src/provider/redis.provider';
 
 describe('ConnectionsService', () => {
   let service: ConnectionsService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ConnectionsService, PrismaService, NotificationsService],
+      providers: [
+        ConnectionsService,
+        PrismaService,
+        NotificationsService,
+        ReputationService,
+        RatingDimensionsService,
+        ConfigService,
+        {
+          provide: REDIS_CLIENT,
+          useValue: {},
+        },
+      ],
     }).compile();
 
     service = module.get<ConnectionsService>(ConnectionsService);
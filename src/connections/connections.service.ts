@@ -10,6 +10,16 @@ import { ApiTags } from '@nestjs/swagger';
 import { ProfileFetcherDelegator } from '../../src/user/profile-fetcher/delegator.profile-fetcher';
 import { v4 } from 'uuid';
 import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReputationService } from '../../src/reviews/reputation.service';
+import { ReputationScoreDto } from '../../src/reviews/dto/reputation-score.dto';
+
+type UserWithConnection = User & {
+  _count: { followings: number; reviewsReceived: number };
+} & {
+  followers?: { id: number; followerId: string; followingId: string }[];
+} & {
+  settings?: { reviewsVisible: boolean } | null;
+};
 
 @Injectable()
 @ApiTags('Connections service')
@@ -17,6 +27,7 @@ export class ConnectionsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly notificationsService: NotificationsService,
+    private readonly reputationService: ReputationService,
   ) {}
 
   // retuns an object to be used with prisma's include
@@ -35,15 +46,23 @@ export class ConnectionsService {
             },
           }
         : false,
+      settings: {
+        select: {
+          reviewsVisible: true,
+        },
+      },
     };
   }
 
-  // transforms an user from db to a Connection DTO
+  // transforms an user from db to a Connection DTO. Review stats of users who hid their reviews are only shown to themselves.
   private convertConnectionToDto(
-    user: User & { _count: { followings: number; reviewsReceived: number } } & {
-      followers?: { id: number; followerId: string; followingId: string }[];
-    },
+    user: UserWithConnection,
+    reputation: ReputationScoreDto,
+    currentUserId?: User['id'],
   ): ConnectionDto {
+    const reviewsVisible = user.settings?.reviewsVisible ?? true;
+    const canSeeReviews = reviewsVisible || user.id === currentUserId;
+
     return {
       id: user.id,
       email: user.email,
@@ -53,12 +72,27 @@ export class ConnectionsService {
       isEmailVerified: user.isEmailVerified,
       joinedAt: user.joinedAt,
       authType: user.authType,
-      reviewsCount: user._count.reviewsReceived,
+      reviewsCount: canSeeReviews ? user._count.reviewsReceived : undefined,
       connectionsCount: user._count.followings,
       isConnection: user.followers && user.followers.length !== 0,
+      reputation: canSeeReviews ? reputation : undefined,
+      reviewsVisible,
     };
   }
 
+  private async convertConnectionsToDto(
+    users: UserWithConnection[],
+    currentUserId?: User['id'],
+  ): Promise<ConnectionDto[]> {
+    const reputations = await this.reputationService.getReputations(
+      users.map((u) => u.id),
+    );
+
+    return users.map((u) =>
+      this.convertConnectionToDto(u, reputations.get(u.id), currentUserId),
+    );
+  }
+
   async getConnection(connectionId: User['id'], currentUserId: User['id']) {
     const user = await this.prisma.user.findUnique({
       where: {
@@ -71,7 +105,11 @@ export class ConnectionsService {
       throw new NotFoundException(`User with ${connectionId} not found`);
     }
 
-    return this.convertConnectionToDto(user);
+    return this.convertConnectionToDto(
+      user,
+      await this.reputationService.getReputation(user.id),
+      currentUserId,
+    );
   }
 
   async getUserConnections(userId: User['id']) {
@@ -86,7 +124,10 @@ export class ConnectionsService {
       },
     });
 
-    return connections.map((c) => this.convertConnectionToDto(c.following));
+    return this.convertConnectionsToDto(
+      connections.map((c) => c.following),
+      userId,
+    );
   }
 
   async addConnection(currentUserId: User['id'], userId: User['id']) {
@@ -117,7 +158,11 @@ export class ConnectionsService {
       { followerId: currentUserId, followingId: userId },
     );
 
-    return this.convertConnectionToDto(connection.following);
+    return this.convertConnectionToDto(
+      connection.following,
+      await this.reputationService.getReputation(userId),
+      currentUserId,
+    );
   }
 
   async removeConnection(currentUserId: User['id'], userId: User['id']) {
@@ -146,7 +191,7 @@ export class ConnectionsService {
       include: this.includeWithUserConnection(userId),
     });
 
-    return users.map((u) => this.convertConnectionToDto(u));
+    return this.convertConnectionsToDto(users, userId);
   }
 
   async searchUserByExternalProfile(profileUrlBase64: string) {
@@ -160,7 +205,11 @@ export class ConnectionsService {
         user: { include: this.includeWithUserConnection() },
       },
     });
-    if (socialAccount) return this.convertConnectionToDto(socialAccount.user);
+    if (socialAccount)
+      return this.convertConnectionToDto(
+        socialAccount.user,
+        await this.reputationService.getReputation(socialAccount.user.id),
+      );
 
     // Fetch the profile details
     const profileData = await new ProfileFetcherDelegator(
@@ -192,7 +241,10 @@ export class ConnectionsService {
         },
       }),
     ]);
-    return this.convertConnectionToDto(newUser);
+    return this.convertConnectionToDto(
+      newUser,
+      await this.reputationService.getReputation(newUser.id),
+    );
   }
 
   async getReviewedConnections(userId: string): Promise<ConnectionDto[]> {
@@ -207,6 +259,6 @@ export class ConnectionsService {
       include: this.includeWithUserConnection(),
     });
 
-    return connections.map((c) => this.convertConnectionToDto(c));
+    return this.convertConnectionsToDto(connections, userId);
   }
 }
@@ -1,6 +1,7 @@
 import { AuthType } from '@prisma/client';
 import { Type } from 'class-transformer';
 import { IsDate, IsEnum } from 'class-validator';
+import { ReputationScoreDto } from '../../reviews/dto/reputation-score.dto';
 
 export class ConnectionDto {
   name?: string;
@@ -13,9 +14,12 @@ export class ConnectionDto {
   @IsDate()
   joinedAt: Date;
 
-  reviewsCount: number;
+  // reviewsCount and reputation are not set when the user hid their reviews from others
+  reviewsCount?: number;
   connectionsCount: number;
   isConnection: boolean;
+  reputation?: ReputationScoreDto;
+  reviewsVisible: boolean;
 
   @IsEnum(AuthType)
   authType: AuthType;
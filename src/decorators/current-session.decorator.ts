@@ -0,0 +1,21 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Session } from '@prisma/client';
+import { TokenPayload } from '../auth/service/sessions.service';
+
+export const CurrentSessionId = createParamDecorator<
+  unknown,
+  ExecutionContext,
+  Session['id'] | undefined
+>((_: unknown, ctx: ExecutionContext) => {
+  const request = ctx.switchToHttp().getRequest();
+  return request.tokenPayload?.sid;
+});
+
+export const CurrentTokenPayload = createParamDecorator<
+  unknown,
+  ExecutionContext,
+  TokenPayload | undefined
+>((_: unknown, ctx: ExecutionContext) => {
+  const request = ctx.switchToHttp().getRequest();
+  return request.tokenPayload;
+});
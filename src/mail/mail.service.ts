@@ -1,6 +1,15 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Transporter, createTransport } from 'nodemailer';
 
+// user provided text must not be interpreted as HTML
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 @Injectable()
 export class MailService {
   private readonly transporter: Transporter;
@@ -24,12 +33,41 @@ export class MailService {
     await this.sendEmail(email, subject, body);
   }
 
+  async sendMagicLinkEmail(email: string, link: string) {
+    const subject = 'Sign in to Culero';
+    const body = `<p><a href="${link}">Sign in</a></p><p>The link expires in 15 minutes and only works on the device you signed in from.</p>`;
+    await this.sendEmail(email, subject, body);
+  }
+
   async sendEmailVerifiedEmail(email: string) {
     const subject = 'Email Verified';
     const body = `<p>Your email has been verified</p>`;
     await this.sendEmail(email, subject, body);
   }
 
+  async sendReviewRequest(
+    email: string,
+    requesterName: string,
+    link: string,
+    message?: string,
+  ) {
+    const subject = `${requesterName} asked you for a review`;
+    const body = `<p><strong>${escapeHtml(requesterName)}</strong> would like to know what you think about working with them.</p>${
+      message ? `<p>${escapeHtml(message)}</p>` : ''
+    }<p><a href="${link}">Write a review</a></p>`;
+    await this.sendEmail(email, subject, body);
+  }
+
+  async sendReviewRequestReminder(
+    email: string,
+    requesterName: string,
+    link: string,
+  ) {
+    const subject = `Reminder: ${requesterName} is waiting for your review`;
+    const body = `<p><strong>${escapeHtml(requesterName)}</strong> is still waiting for your review.</p><p><a href="${link}">Write a review</a></p>`;
+    await this.sendEmail(email, subject, body);
+  }
+
   private async sendEmail(
     email: string,
     subject: string,
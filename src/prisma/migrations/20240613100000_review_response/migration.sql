@@ -0,0 +1,19 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'REVIEW_RESPONSE';
+
+-- CreateTable
+CREATE TABLE "ReviewResponse" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "comment" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewResponse_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewResponse_reviewId_key" ON "ReviewResponse"("reviewId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewResponse" ADD CONSTRAINT "ReviewResponse_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
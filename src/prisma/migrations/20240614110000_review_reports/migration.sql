@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "ReviewReportReason" AS ENUM ('SPAM', 'OFFENSIVE', 'HARASSMENT', 'FALSE_INFORMATION', 'CONFLICT_OF_INTEREST', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ReviewReportStatus" AS ENUM ('OPEN', 'DISMISSED', 'REVIEW_BLOCKED', 'AUTHOR_WARNED');
+
+-- CreateTable
+CREATE TABLE "ReviewReport" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "reportedById" TEXT NOT NULL,
+    "reason" "ReviewReportReason" NOT NULL,
+    "details" TEXT,
+    "status" "ReviewReportStatus" NOT NULL DEFAULT 'OPEN',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolutionNote" TEXT,
+
+    CONSTRAINT "ReviewReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewReport_status_idx" ON "ReviewReport"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewReport_reviewId_reportedById_key" ON "ReviewReport"("reviewId", "reportedById");
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_reportedById_fkey" FOREIGN KEY ("reportedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
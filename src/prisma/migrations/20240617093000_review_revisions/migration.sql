@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "editedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ReviewRevision" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "professionalism" INTEGER NOT NULL,
+    "reliability" INTEGER NOT NULL,
+    "communication" INTEGER NOT NULL,
+    "comment" TEXT,
+    "anonymous" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewRevision_reviewId_createdAt_idx" ON "ReviewRevision"("reviewId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReviewRevision" ADD CONSTRAINT "ReviewRevision_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing reviews start their history with their current content
+INSERT INTO "ReviewRevision" ("id", "reviewId", "professionalism", "reliability", "communication", "comment", "anonymous", "createdAt")
+SELECT gen_random_uuid()::text, "id", "professionalism", "reliability", "communication", "comment", "anonymous", "createdAt"
+FROM "Review";
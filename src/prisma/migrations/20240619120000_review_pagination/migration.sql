@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "overallRating" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill the overall rating of the existing reviews
+UPDATE "Review" SET "overallRating" = ("professionalism" + "reliability" + "communication") / 3.0;
+
+-- CreateIndex
+CREATE INDEX "Review_postedToId_createdAt_idx" ON "Review"("postedToId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Review_postedById_createdAt_idx" ON "Review"("postedById", "createdAt");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "ReputationScore" (
+    "userId" TEXT NOT NULL,
+    "professionalism" DOUBLE PRECISION NOT NULL,
+    "reliability" DOUBLE PRECISION NOT NULL,
+    "communication" DOUBLE PRECISION NOT NULL,
+    "overall" DOUBLE PRECISION NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "reviewsCount" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReputationScore_pkey" PRIMARY KEY ("userId")
+);
+
+-- AddForeignKey
+ALTER TABLE "ReputationScore" ADD CONSTRAINT "ReputationScore_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- Keep only the newest review of every reviewer for the same user
+DELETE FROM "Review"
+WHERE "id" IN (
+    SELECT "id" FROM (
+        SELECT "id", ROW_NUMBER() OVER (
+            PARTITION BY "postedById", "postedToId"
+            ORDER BY "createdAt" DESC, "id" DESC
+        ) AS "rank"
+        FROM "Review"
+        WHERE "postedById" IS NOT NULL
+    ) AS "ranked"
+    WHERE "ranked"."rank" > 1
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_postedById_postedToId_key" ON "Review"("postedById", "postedToId");
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ReviewRequestStatus" AS ENUM ('SENT', 'OPENED', 'COMPLETED', 'DECLINED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'REVIEW_REQUEST';
+
+-- CreateTable
+CREATE TABLE "ReviewRequest" (
+    "id" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "recipientId" TEXT,
+    "email" TEXT,
+    "message" TEXT,
+    "token" TEXT NOT NULL,
+    "status" "ReviewRequestStatus" NOT NULL DEFAULT 'SENT',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "openedAt" TIMESTAMP(3),
+    "respondedAt" TIMESTAMP(3),
+    "remindersSent" INTEGER NOT NULL DEFAULT 0,
+    "nextReminderAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReviewRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewRequest_token_key" ON "ReviewRequest"("token");
+
+-- CreateIndex
+CREATE INDEX "ReviewRequest_requestedById_createdAt_idx" ON "ReviewRequest"("requestedById", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReviewRequest_status_nextReminderAt_idx" ON "ReviewRequest"("status", "nextReminderAt");
+
+-- AddForeignKey
+ALTER TABLE "ReviewRequest" ADD CONSTRAINT "ReviewRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewRequest" ADD CONSTRAINT "ReviewRequest_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ReviewDraft" (
+    "id" TEXT NOT NULL,
+    "postedById" TEXT NOT NULL,
+    "postedToId" TEXT NOT NULL,
+    "professionalism" INTEGER,
+    "reliability" INTEGER,
+    "communication" INTEGER,
+    "comment" TEXT,
+    "anonymous" BOOLEAN,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewDraft_postedById_postedToId_key" ON "ReviewDraft"("postedById", "postedToId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewDraft" ADD CONSTRAINT "ReviewDraft_postedById_fkey" FOREIGN KEY ("postedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewDraft" ADD CONSTRAINT "ReviewDraft_postedToId_fkey" FOREIGN KEY ("postedToId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
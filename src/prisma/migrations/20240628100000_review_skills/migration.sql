@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "ReviewDraft" ADD COLUMN     "skills" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "Skill" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Skill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewSkill" (
+    "reviewId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+
+    CONSTRAINT "ReviewSkill_pkey" PRIMARY KEY ("reviewId","skillId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Skill_slug_key" ON "Skill"("slug");
+
+-- CreateIndex
+CREATE INDEX "ReviewSkill_skillId_idx" ON "ReviewSkill"("skillId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewSkill" ADD CONSTRAINT "ReviewSkill_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewSkill" ADD CONSTRAINT "ReviewSkill_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
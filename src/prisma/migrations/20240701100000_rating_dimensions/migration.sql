@@ -0,0 +1,87 @@
+-- CreateTable
+CREATE TABLE "RatingDimension" (
+    "id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RatingDimension_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewScore" (
+    "reviewId" TEXT NOT NULL,
+    "dimensionId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+
+    CONSTRAINT "ReviewScore_pkey" PRIMARY KEY ("reviewId","dimensionId")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewScore_dimensionId_rating_idx" ON "ReviewScore"("dimensionId", "rating");
+
+-- AddForeignKey
+ALTER TABLE "ReviewScore" ADD CONSTRAINT "ReviewScore_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewScore" ADD CONSTRAINT "ReviewScore_dimensionId_fkey" FOREIGN KEY ("dimensionId") REFERENCES "RatingDimension"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The former rating columns become the first dimensions
+INSERT INTO "RatingDimension" ("id", "label", "position") VALUES
+    ('professionalism', 'Professionalism', 0),
+    ('reliability', 'Reliability', 1),
+    ('communication', 'Communication', 2);
+
+INSERT INTO "ReviewScore" ("reviewId", "dimensionId", "rating")
+SELECT "id", 'professionalism', "professionalism" FROM "Review"
+UNION ALL
+SELECT "id", 'reliability', "reliability" FROM "Review"
+UNION ALL
+SELECT "id", 'communication', "communication" FROM "Review";
+
+-- AlterTable
+ALTER TABLE "ReviewRevision" ADD COLUMN "scores" JSONB;
+
+UPDATE "ReviewRevision" SET "scores" = jsonb_build_object(
+    'professionalism', "professionalism",
+    'reliability', "reliability",
+    'communication', "communication"
+);
+
+ALTER TABLE "ReviewRevision" ALTER COLUMN "scores" SET NOT NULL,
+DROP COLUMN "professionalism",
+DROP COLUMN "reliability",
+DROP COLUMN "communication";
+
+-- AlterTable, only the ratings that were set are kept
+ALTER TABLE "ReviewDraft" ADD COLUMN "scores" JSONB NOT NULL DEFAULT '{}';
+
+UPDATE "ReviewDraft" SET "scores" = jsonb_strip_nulls(jsonb_build_object(
+    'professionalism', "professionalism",
+    'reliability', "reliability",
+    'communication', "communication"
+));
+
+ALTER TABLE "ReviewDraft" DROP COLUMN "professionalism",
+DROP COLUMN "reliability",
+DROP COLUMN "communication";
+
+-- AlterTable
+ALTER TABLE "ReputationScore" ADD COLUMN "scores" JSONB;
+
+UPDATE "ReputationScore" SET "scores" = jsonb_build_object(
+    'professionalism', "professionalism",
+    'reliability', "reliability",
+    'communication', "communication"
+);
+
+ALTER TABLE "ReputationScore" ALTER COLUMN "scores" SET NOT NULL,
+DROP COLUMN "professionalism",
+DROP COLUMN "reliability",
+DROP COLUMN "communication";
+
+-- AlterTable
+ALTER TABLE "Review" DROP COLUMN "professionalism",
+DROP COLUMN "reliability",
+DROP COLUMN "communication";
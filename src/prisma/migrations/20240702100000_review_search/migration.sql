@@ -0,0 +1,5 @@
+-- AlterTable, the column is kept up to date by the database whenever the comment changes
+ALTER TABLE "Review" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce("comment", ''))) STORED;
+
+-- CreateIndex
+CREATE INDEX "Review_searchVector_idx" ON "Review" USING GIN ("searchVector");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "publicBadge" BOOLEAN NOT NULL DEFAULT true;
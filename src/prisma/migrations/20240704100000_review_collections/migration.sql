@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "FavoriteReview" ADD COLUMN     "collectionId" TEXT,
+ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "ReviewCollection" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewCollection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FavoriteReview_userId_createdAt_idx" ON "FavoriteReview"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "FavoriteReview_collectionId_idx" ON "FavoriteReview"("collectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewCollection_userId_name_key" ON "ReviewCollection"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "FavoriteReview" ADD CONSTRAINT "FavoriteReview_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "ReviewCollection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewCollection" ADD CONSTRAINT "ReviewCollection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "featuredPosition" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Review_postedToId_featuredPosition_idx" ON "Review"("postedToId", "featuredPosition");
@@ -0,0 +1,5 @@
+-- Codes are stored hashed from now on, the plaintext ones can't be verified anymore
+DELETE FROM "VerificationCode";
+
+-- AlterTable
+ALTER TABLE "VerificationCode" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "hiddenByReports" BOOLEAN NOT NULL DEFAULT false;
+
+-- Reviews hidden by the reports used to be told apart by their moderation reason
+UPDATE "Review" SET "hiddenByReports" = true
+WHERE "state" = 'PENDING' AND "moderationReason" LIKE 'Reported by %';
@@ -0,0 +1,42 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadgesController } from './badges.controller';
+import { BadgesService } from './badges.service';
+
+describe('BadgesController', () => {
+  let controller: BadgesController;
+  let res: { header: jest.Mock; status: jest.Mock };
+
+  beforeEach(async () => {
+    res = { header: jest.fn(), status: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [BadgesController],
+      providers: [
+        {
+          provide: BadgesService,
+          useValue: { getBadge: jest.fn().mockResolvedValue('<svg></svg>') },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<BadgesController>(BadgesController);
+  });
+
+  it('should send the badge with its ETag', async () => {
+    const badge = await controller.getBadge('1', {}, undefined, res);
+
+    expect(badge).toBe('<svg></svg>');
+    expect(res.header).toHaveBeenCalledWith('ETag', expect.any(String));
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('should answer with 304 when the client has the same badge', async () => {
+    await controller.getBadge('1', {}, undefined, res);
+    const etag = res.header.mock.calls[0][1];
+
+    const badge = await controller.getBadge('1', {}, `"other", W/${etag}`, res);
+
+    expect(badge).toBeUndefined();
+    expect(res.status).toHaveBeenCalledWith(304);
+  });
+});
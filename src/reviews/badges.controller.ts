@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Headers,
+  Param,
+  Query,
+  Res,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiProduces,
+  ApiTags,
+} from '@nestjs/swagger';
+import { createHash } from 'crypto';
+import { Public } from '../../src/decorators/public.decorator';
+import { BadgesService } from './badges.service';
+import { BadgeQueryDto, ReputationWidgetDto } from './dto/badge.dto';
+import { queryPipe } from '../../src/common/pipes/query.pipe';
+
+// badges are embedded in other sites, so they can be cached for a while and revalidated with their ETag
+const CACHE_CONTROL = 'public, max-age=300';
+
+@Controller('public')
+@Public()
+@ApiTags('Badges controller')
+export class BadgesController {
+  constructor(private readonly badgesService: BadgesService) {}
+
+  // sets the ETag of the body and answers with 304 if the client already has this version
+  private sendWithETag<T>(
+    res,
+    ifNoneMatch: string | undefined,
+    body: T,
+    content: string,
+  ): T | undefined {
+    const etag = `"${createHash('sha1').update(content).digest('base64url')}"`;
+    res.header('ETag', etag);
+
+    const isCached = ifNoneMatch
+      ?.split(',')
+      .some((tag) => tag.trim().replace(/^W\//, '') === etag);
+    if (isCached) {
+      res.status(304);
+      return undefined;
+    }
+    return body;
+  }
+
+  /**
+   * Get the rating badge of a user as an SVG image, to embed it in websites and READMEs
+   */
+  @Get('badge/:userId.svg')
+  @Header('Content-Type', 'image/svg+xml; charset=utf-8')
+  @Header('Cache-Control', CACHE_CONTROL)
+  @ApiProduces('image/svg+xml')
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  async getBadge(
+    @Param('userId') userId: string,
+    @Query(queryPipe) query: BadgeQueryDto,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) res,
+  ): Promise<string | undefined> {
+    const badge = await this.badgesService.getBadge(userId, query);
+    return this.sendWithETag(res, ifNoneMatch, badge, badge);
+  }
+
+  /**
+   * Get the rating summary of a user, to render a custom widget on other sites
+   */
+  @Get('widget/:userId.json')
+  @Header('Cache-Control', CACHE_CONTROL)
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  async getWidget(
+    @Param('userId') userId: string,
+    @Query(queryPipe) query: BadgeQueryDto,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) res,
+  ): Promise<ReputationWidgetDto | undefined> {
+    const widget = await this.badgesService.getWidget(userId, query);
+    return this.sendWithETag(res, ifNoneMatch, widget, JSON.stringify(widget));
+  }
+}
@@ -0,0 +1,53 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadgesService } from './badges.service';
+import { ReviewsService } from './reviews.service';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('BadgesService', () => {
+  let service: BadgesService;
+  let prisma: { user: { findUnique: jest.Mock } };
+
+  beforeEach(async () => {
+    prisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ id: '1', settings: null }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BadgesService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ReviewsService,
+          useValue: {
+            getAvgUserRatings: jest.fn().mockResolvedValue({
+              scores: [{ rating: 4 }, { rating: 5 }],
+              reputation: { reviewsCount: 1 },
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BadgesService>(BadgesService);
+  });
+
+  it('should escape the label of the badge', async () => {
+    const badge = await service.getBadge('1', { label: '<b>"Me"</b>' });
+
+    expect(badge).toContain('&lt;b&gt;&quot;Me&quot;&lt;/b&gt;');
+    expect(badge).not.toContain('<b>');
+    expect(badge).toContain('4.5 · 1 review<');
+  });
+
+  it('should not show the badge of a user who opted out', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      id: '1',
+      settings: { publicBadge: false, reviewsVisible: true },
+    });
+
+    await expect(service.getWidget('1', {})).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { User } from '@prisma/client';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { ReviewsService } from './reviews.service';
+import {
+  BadgeQueryDto,
+  BadgeTheme,
+  ReputationWidgetDto,
+  WidgetThemeDto,
+} from './dto/badge.dto';
+
+const THEMES: Record<BadgeTheme, WidgetThemeDto> = {
+  [BadgeTheme.LIGHT]: {
+    labelBackground: '#e5e7eb',
+    labelColor: '#111827',
+    background: '#f9fafb',
+    color: '#111827',
+    accent: '#f59e0b',
+  },
+  [BadgeTheme.DARK]: {
+    labelBackground: '#374151',
+    labelColor: '#f9fafb',
+    background: '#111827',
+    color: '#f9fafb',
+    accent: '#fbbf24',
+  },
+};
+
+// rough width of a character of the 11px badge font, enough to size the badge without measuring the text
+const CHAR_WIDTH = 7;
+const PADDING = 10;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+@Injectable()
+export class BadgesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reviewsService: ReviewsService,
+  ) {}
+
+  private getTheme({ theme, color }: BadgeQueryDto): WidgetThemeDto {
+    const colors = THEMES[theme ?? BadgeTheme.LIGHT];
+    return color ? { ...colors, accent: `#${color}` } : colors;
+  }
+
+  /**
+   * Get the public rating summary of a user. Users who opted out of the badge or hid their
+   * reviews are reported as not found, like unknown users.
+   */
+  async getWidget(
+    userId: User['id'],
+    query: BadgeQueryDto,
+  ): Promise<ReputationWidgetDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { settings: true },
+    });
+
+    const isAvailable =
+      user &&
+      (user.settings?.publicBadge ?? true) &&
+      (user.settings?.reviewsVisible ?? true);
+    if (!isAvailable) {
+      throw new NotFoundException(`Badge of user ${userId} not found`);
+    }
+
+    // the averages come from the cache shared with the rating endpoints
+    const { scores, reputation } = await this.reviewsService.getAvgUserRatings(
+      null,
+      userId,
+    );
+    const mean =
+      scores.reduce((sum, score) => sum + score.rating, 0) /
+      (scores.length || 1);
+
+    return {
+      id: user.id,
+      name: user.name,
+      headline: user.headline,
+      profilePictureUrl: user.profilePictureUrl,
+      rating: Math.round(mean * 10) / 10,
+      reviewsCount: reputation.reviewsCount,
+      scores,
+      theme: this.getTheme(query),
+    };
+  }
+
+  /**
+   * Render the rating badge of a user as an SVG image
+   */
+  async getBadge(userId: User['id'], query: BadgeQueryDto): Promise<string> {
+    const { rating, reviewsCount, theme } = await this.getWidget(userId, query);
+
+    const label = query.label ?? 'Culero';
+    const value =
+      reviewsCount > 0
+        ? `${rating.toFixed(1)} · ${reviewsCount} review${reviewsCount === 1 ? '' : 's'}`
+        : 'no reviews';
+
+    // the star is drawn separately to use the accent color
+    const labelWidth = label.length * CHAR_WIDTH + PADDING * 2;
+    const starWidth = CHAR_WIDTH + PADDING;
+    const valueWidth = value.length * CHAR_WIDTH + PADDING;
+    const width = labelWidth + starWidth + valueWidth;
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${escapeXml(`${label}: ${value}`)}">`,
+      `<title>${escapeXml(`${label}: ${value}`)}</title>`,
+      `<rect width="${labelWidth}" height="20" rx="3" fill="${theme.labelBackground}"/>`,
+      `<rect x="${labelWidth}" width="${width - labelWidth}" height="20" rx="3" fill="${theme.background}"/>`,
+      `<g font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">`,
+      `<text x="${PADDING}" y="14" fill="${theme.labelColor}">${escapeXml(label)}</text>`,
+      `<text x="${labelWidth + PADDING / 2}" y="14" fill="${theme.accent}">★</text>`,
+      `<text x="${labelWidth + starWidth}" y="14" fill="${theme.color}">${escapeXml(value)}</text>`,
+      `</g>`,
+      `</svg>`,
+    ].join('');
+  }
+}
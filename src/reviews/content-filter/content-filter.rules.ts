@@ -0,0 +1,21 @@
+import { LanguageRules } from './language-rules.filter';
+
+// Rules used for a language when REVIEW_CONTENT_FILTER_RULES_FILE does not define it
+export const DEFAULT_LANGUAGE_RULES: Record<string, LanguageRules> = {
+  en: {
+    words: ['idiot', 'moron', 'imbecile', 'retard', 'scumbag', 'dumbass'],
+    patterns: ['\\bf+u+c+k+\\w*', '\\bs+h+i+t+\\w*', '\\bbitch\\w*'],
+  },
+  de: {
+    words: ['idiot', 'vollidiot', 'arschloch', 'wichser', 'missgeburt'],
+    patterns: ['\\bschei(?:ß|ss)\\w*'],
+  },
+  fr: {
+    words: ['connard', 'connasse', 'salaud', 'salope', 'enculé', 'abruti'],
+    patterns: ['\\bputain\\w*'],
+  },
+  es: {
+    words: ['idiota', 'imbécil', 'gilipollas', 'cabrón', 'pendejo'],
+    patterns: ['\\bjoder\\w*'],
+  },
+};
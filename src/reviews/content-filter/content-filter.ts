@@ -0,0 +1,23 @@
+export enum ContentFilterAction {
+  // the review is refused
+  REJECT = 'REJECT',
+  // the matching text is replaced with asterisks
+  MASK = 'MASK',
+  // the review is sent to the moderation queue
+  MODERATE = 'MODERATE',
+}
+
+export type ContentFilterMatch = {
+  start: number;
+  end: number;
+  reason: string;
+};
+
+/**
+ * A check run on the text of the reviews. Filters only find the problematic parts of
+ * the text, what happens to the review depends on the action of the filter.
+ */
+export interface ContentFilter {
+  readonly action: ContentFilterAction;
+  findMatches(text: string): ContentFilterMatch[];
+}
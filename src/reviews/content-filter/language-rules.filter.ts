@@ -0,0 +1,60 @@
+import {
+  ContentFilter,
+  ContentFilterAction,
+  ContentFilterMatch,
+} from './content-filter';
+
+export type LanguageRules = {
+  // matched as whole words, case insensitive
+  words?: string[];
+  // regular expressions, case insensitive
+  patterns?: string[];
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds the forbidden words and patterns of a language.
+ */
+export class LanguageRulesFilter implements ContentFilter {
+  private readonly regexes: RegExp[];
+
+  constructor(
+    private readonly language: string,
+    rules: LanguageRules,
+    readonly action: ContentFilterAction,
+  ) {
+    this.regexes = (rules.patterns ?? []).map((p) => new RegExp(p, 'giu'));
+
+    if (rules.words?.length) {
+      // letters and digits around the word mean it is part of another word
+      this.regexes.push(
+        new RegExp(
+          `(?<![\\p{L}\\p{N}])(?:${rules.words.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+          'giu',
+        ),
+      );
+    }
+  }
+
+  findMatches(text: string): ContentFilterMatch[] {
+    const matches: ContentFilterMatch[] = [];
+
+    for (const regex of this.regexes) {
+      for (const match of text.matchAll(regex)) {
+        if (match[0].length === 0) {
+          continue;
+        }
+
+        matches.push({
+          start: match.index,
+          end: match.index + match[0].length,
+          reason: `"${match[0]}" is not allowed (${this.language})`,
+        });
+      }
+    }
+
+    return matches;
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  ContentFilter,
+  ContentFilterAction,
+  ContentFilterMatch,
+} from './content-filter';
+
+const EMAIL_REGEX =
+  /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+
+// digits separated by spaces, dots, dashes or parentheses, with an optional country code
+const PHONE_REGEX = /\+?\(?\d[\d\s().-]{5,}\d/g;
+
+// dates and year ranges have enough digits to look like phone numbers too
+const NOT_PHONE_REGEXES = [
+  /^\d{4}-\d{2}-\d{2}$/,
+  /^(?:19|20)\d{2}\s*[-–]\s*(?:19|20)\d{2}$/,
+];
+
+// shortest local numbers and longest international numbers (E.164)
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+/**
+ * Finds personal information, emails and phone numbers, that should not be published
+ * in a review.
+ */
+export class PiiFilter implements ContentFilter {
+  constructor(readonly action: ContentFilterAction) {}
+
+  findMatches(text: string): ContentFilterMatch[] {
+    const matches: ContentFilterMatch[] = [];
+
+    for (const match of text.matchAll(EMAIL_REGEX)) {
+      matches.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        reason: 'email addresses are not allowed',
+      });
+    }
+
+    for (const match of text.matchAll(PHONE_REGEX)) {
+      const digits = match[0].replace(/\D/g, '').length;
+      if (
+        digits < MIN_PHONE_DIGITS ||
+        digits > MAX_PHONE_DIGITS ||
+        NOT_PHONE_REGEXES.some((regex) => regex.test(match[0]))
+      ) {
+        continue;
+      }
+
+      matches.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        reason: 'phone numbers are not allowed',
+      });
+    }
+
+    return matches;
+  }
+}
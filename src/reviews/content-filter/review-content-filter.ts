@@ -0,0 +1,146 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import {
+  ContentFilter,
+  ContentFilterAction,
+  ContentFilterMatch,
+} from './content-filter';
+import { LanguageRules, LanguageRulesFilter } from './language-rules.filter';
+import { PiiFilter } from './pii.filter';
+import { DEFAULT_LANGUAGE_RULES } from './content-filter.rules';
+
+export type ContentFilterResult = {
+  // the text with the masked parts replaced
+  text?: string;
+  requiresModeration: boolean;
+  // why the review has to be moderated
+  reasons: string[];
+};
+
+/**
+ * Checks the comment of the reviews when they are posted or edited.
+ *
+ * Each filter has an action: REJECT refuses the review, MASK replaces the matching text
+ * with asterisks and MODERATE sends the review to the moderation queue, even when the
+ * moderation of reviews is disabled. New filters only need to implement ContentFilter
+ * and be added to the list of filters.
+ */
+@Injectable()
+export class ReviewContentFilter {
+  private readonly enabled: boolean;
+  private readonly filters: ContentFilter[];
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled =
+      this.configService.get<string>('REVIEW_CONTENT_FILTER_ENABLED') !==
+      'false';
+
+    const languages = (
+      this.configService.get<string>('REVIEW_CONTENT_FILTER_LANGUAGES') ?? 'en'
+    )
+      .split(',')
+      .map((l) => l.trim())
+      .filter(Boolean);
+    const rules = this.loadLanguageRules();
+    const languageAction = this.getAction(
+      'REVIEW_CONTENT_FILTER_LANGUAGE_ACTION',
+      ContentFilterAction.MODERATE,
+    );
+
+    this.filters = [
+      ...languages
+        .filter((language) => rules[language])
+        .map(
+          (language) =>
+            new LanguageRulesFilter(language, rules[language], languageAction),
+        ),
+      new PiiFilter(
+        this.getAction(
+          'REVIEW_CONTENT_FILTER_PII_ACTION',
+          ContentFilterAction.MASK,
+        ),
+      ),
+    ];
+  }
+
+  private getAction(
+    key: string,
+    defaultAction: ContentFilterAction,
+  ): ContentFilterAction {
+    const action = this.configService.get<string>(key)?.toUpperCase();
+    return Object.values<string>(ContentFilterAction).includes(action)
+      ? (action as ContentFilterAction)
+      : defaultAction;
+  }
+
+  // the rules file is a JSON object of LanguageRules by language code
+  private loadLanguageRules(): Record<string, LanguageRules> {
+    const rulesFile = this.configService.get<string>(
+      'REVIEW_CONTENT_FILTER_RULES_FILE',
+    );
+
+    if (!rulesFile) {
+      return DEFAULT_LANGUAGE_RULES;
+    }
+
+    return {
+      ...DEFAULT_LANGUAGE_RULES,
+      ...JSON.parse(readFileSync(rulesFile, 'utf-8')),
+    };
+  }
+
+  private mask(text: string, matches: ContentFilterMatch[]): string {
+    const characters = [...text];
+    const masked = new Array<boolean>(text.length).fill(false);
+    for (const { start, end } of matches) {
+      masked.fill(true, start, end);
+    }
+
+    // indexes of the matches are UTF-16 code units, not characters
+    let index = 0;
+    return characters
+      .map((character) => {
+        const isMasked = masked[index];
+        index += character.length;
+        return isMasked && character.trim() ? '*' : character;
+      })
+      .join('');
+  }
+
+  check(text?: string | null): ContentFilterResult {
+    if (!this.enabled || !text) {
+      return { text, requiresModeration: false, reasons: [] };
+    }
+
+    const matchesByAction = new Map<
+      ContentFilterAction,
+      ContentFilterMatch[]
+    >();
+    for (const filter of this.filters) {
+      const matches = filter.findMatches(text);
+      matchesByAction.set(filter.action, [
+        ...(matchesByAction.get(filter.action) ?? []),
+        ...matches,
+      ]);
+    }
+
+    const rejected = matchesByAction.get(ContentFilterAction.REJECT) ?? [];
+    if (rejected.length > 0) {
+      throw new BadRequestException(
+        `Review was rejected: ${[...new Set(rejected.map((m) => m.reason))].join(', ')}`,
+      );
+    }
+
+    const moderated = matchesByAction.get(ContentFilterAction.MODERATE) ?? [];
+
+    return {
+      text: this.mask(
+        text,
+        matchesByAction.get(ContentFilterAction.MASK) ?? [],
+      ),
+      requiresModeration: moderated.length > 0,
+      reasons: [...new Set(moderated.map((m) => m.reason))],
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ReviewScoreDto } from './rating-dimension.dto';
+
+export const MAX_BADGE_LABEL_LENGTH = 30;
+
+export enum BadgeTheme {
+  LIGHT = 'light',
+  DARK = 'dark',
+}
+
+export class BadgeQueryDto {
+  @IsOptional()
+  @IsEnum(BadgeTheme)
+  @ApiProperty({
+    name: 'theme',
+    enum: BadgeTheme,
+    required: false,
+    default: BadgeTheme.LIGHT,
+  })
+  theme?: BadgeTheme;
+
+  @IsOptional()
+  @Matches(/^[0-9a-fA-F]{6}$/)
+  @ApiProperty({
+    name: 'color',
+    description: 'Hex color of the rating star, without the leading #',
+    required: false,
+    example: 'f59e0b',
+  })
+  color?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_BADGE_LABEL_LENGTH)
+  @ApiProperty({
+    name: 'label',
+    description: 'Text on the left side of the badge',
+    required: false,
+    default: 'Culero',
+    maxLength: MAX_BADGE_LABEL_LENGTH,
+  })
+  label?: string;
+}
+
+export class WidgetThemeDto {
+  labelBackground: string;
+  labelColor: string;
+  background: string;
+  color: string;
+  accent: string;
+}
+
+export class ReputationWidgetDto {
+  id: string;
+  name: string;
+  headline: string;
+  profilePictureUrl: string;
+
+  @ApiProperty({
+    description:
+      'Mean of the average ratings of the user in every dimension, rounded to one decimal. 0 without reviews.',
+  })
+  rating: number;
+
+  reviewsCount: number;
+
+  @Type(() => ReviewScoreDto)
+  @ValidateNested({ each: true })
+  scores: ReviewScoreDto[];
+
+  @ApiProperty({ description: 'Colors of the requested theme' })
+  @Type(() => WidgetThemeDto)
+  @ValidateNested()
+  theme: WidgetThemeDto;
+}
@@ -9,46 +9,54 @@ import {
   Min,
   ValidateNested,
 } from 'class-validator';
+import { SkillNames } from './skill.dto';
+import { RatingScoreDto, RatingScores } from './rating-dimension.dto';
 
 export class CreateReviewDto {
+  @IsOptional()
   @IsNumber({}, { message: 'Quality must be a number' })
   @Min(1, { message: 'Rating must be at least 1' })
   @Max(5, { message: 'Rating must be at most 5' })
   @ApiProperty({
     name: 'professionalism',
-    description: 'Professionalism rating',
+    description: 'Professionalism rating, same as the "professionalism" score',
     minimum: 1,
     maximum: 5,
-    required: true,
+    required: false,
     example: 5,
   })
-  professionalism: number;
+  professionalism?: number;
 
+  @IsOptional()
   @IsNumber({}, { message: 'Reliability must be a number' })
   @Min(1, { message: 'Rating must be at least 1' })
   @Max(5, { message: 'Rating must be at most 5' })
   @ApiProperty({
     name: 'reliability',
-    description: 'Reliability rating',
+    description: 'Reliability rating, same as the "reliability" score',
     minimum: 1,
     maximum: 5,
-    required: true,
+    required: false,
     example: 5,
   })
-  reliability: number;
+  reliability?: number;
 
+  @IsOptional()
   @IsNumber({}, { message: 'Communication must be a number' })
   @Min(1, { message: 'Rating must be at least 1' })
   @Max(5, { message: 'Rating must be at most 5' })
   @ApiProperty({
     name: 'communication',
-    description: 'Communication rating',
+    description: 'Communication rating, same as the "communication" score',
     minimum: 1,
     maximum: 5,
-    required: true,
+    required: false,
     example: 5,
   })
-  communication: number;
+  communication?: number;
+
+  @RatingScores()
+  scores?: RatingScoreDto[];
 
   @IsOptional()
   @IsString()
@@ -69,6 +77,9 @@ export class CreateReviewDto {
     example: false,
   })
   anonymous?: boolean;
+
+  @SkillNames()
+  skills?: string[];
 }
 
 export class CreateReviewBodyDTO {
@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+
+export enum ExportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+  PDF = 'pdf',
+}
+
+export enum ExportScope {
+  RECEIVED = 'received',
+  POSTED = 'posted',
+}
+
+export class ExportReviewsQueryDto {
+  @IsEnum(ExportFormat)
+  @ApiProperty({
+    name: 'format',
+    enum: ExportFormat,
+  })
+  format: ExportFormat;
+
+  @IsOptional()
+  @IsEnum(ExportScope)
+  @ApiProperty({
+    name: 'scope',
+    description: 'Export the reviews received or posted by the current user',
+    enum: ExportScope,
+    required: false,
+    default: ExportScope.RECEIVED,
+  })
+  scope?: ExportScope;
+}
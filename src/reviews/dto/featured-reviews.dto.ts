@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, IsArray, IsString } from 'class-validator';
+
+export const MAX_FEATURED_REVIEWS = 5;
+
+export class ReorderFeaturedReviewsDto {
+  @IsArray()
+  @ArrayMaxSize(MAX_FEATURED_REVIEWS)
+  @IsString({ each: true })
+  @ApiProperty({
+    description:
+      'Ids of all the featured reviews of the current user, in the new order',
+    maxItems: MAX_FEATURED_REVIEWS,
+  })
+  reviewIds: string[];
+}
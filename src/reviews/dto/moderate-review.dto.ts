@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class ApproveReviewDto {
+  @IsOptional()
+  @IsString()
+  @ApiProperty({
+    name: 'reason',
+    description: 'Optional note about the approval, visible to the author',
+    required: false,
+    example: 'Looks good',
+  })
+  reason?: string;
+}
+
+export class BlockReviewDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    name: 'reason',
+    description: 'Why the review was blocked, visible to the author',
+    required: true,
+    example: 'The review contains offensive language',
+  })
+  reason: string;
+}
@@ -0,0 +1,117 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class RatingDimensionDto {
+  @ApiProperty({
+    description: 'Key of the dimension, used to rate it',
+    example: 'technicalSkill',
+  })
+  id: string;
+
+  label: string;
+  position: number;
+
+  @ApiProperty({
+    description: 'Only active dimensions can be rated',
+  })
+  active: boolean;
+}
+
+export class CreateRatingDimensionDto {
+  @Matches(/^[a-z][a-zA-Z0-9]*$/, {
+    message: 'The key of a dimension must be in camelCase',
+  })
+  @MaxLength(50)
+  @ApiProperty({
+    description: 'Key of the dimension, it cannot be changed later',
+    example: 'technicalSkill',
+  })
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @ApiProperty({ example: 'Technical skill' })
+  label: string;
+
+  @IsInt()
+  @IsOptional()
+  @ApiProperty({ required: false, default: 0 })
+  position?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  @ApiProperty({ required: false, default: true })
+  active?: boolean;
+}
+
+export class UpdateRatingDimensionDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  label?: string;
+
+  @IsInt()
+  @IsOptional()
+  position?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
+
+// rating of a review in one dimension
+export class RatingScoreDto {
+  @IsString()
+  @ApiProperty({
+    description: 'Key of the rating dimension',
+    example: 'technicalSkill',
+  })
+  dimension: string;
+
+  @IsInt({ message: 'Rating must be an integer' })
+  @Min(1, { message: 'Rating must be at least 1' })
+  @Max(5, { message: 'Rating must be at most 5' })
+  @ApiProperty({ minimum: 1, maximum: 5, example: 5 })
+  rating: number;
+}
+
+// Scores are given in each active dimension of GET /reviews/dimensions. The legacy fields
+// are the scores of the professionalism, reliability and communication dimensions.
+export const RatingScores = () =>
+  applyDecorators(
+    IsOptional(),
+    IsArray(),
+    Type(() => RatingScoreDto),
+    ValidateNested({ each: true }),
+    ApiProperty({
+      type: [RatingScoreDto],
+      description: 'Ratings by dimension',
+      required: false,
+    }),
+  );
+
+export class ReviewScoreDto {
+  dimension: string;
+  label: string;
+
+  @ApiProperty({
+    description: 'Rating in the dimension, an average for aggregated ratings',
+  })
+  rating: number;
+}
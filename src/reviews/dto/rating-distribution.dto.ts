@@ -0,0 +1,44 @@
+import { Type } from 'class-transformer';
+import { ValidateNested } from 'class-validator';
+
+// number of ratings for each of the 1-5 stars
+export class RatingHistogramDto {
+  1: number;
+  2: number;
+  3: number;
+  4: number;
+  5: number;
+}
+
+export class DimensionHistogramDto {
+  dimension: string;
+  label: string;
+
+  @Type(() => RatingHistogramDto)
+  @ValidateNested()
+  histogram: RatingHistogramDto;
+}
+
+export class RatingDistributionDto {
+  @Type(() => RatingHistogramDto)
+  @ValidateNested()
+  professionalism: RatingHistogramDto;
+
+  @Type(() => RatingHistogramDto)
+  @ValidateNested()
+  reliability: RatingHistogramDto;
+
+  @Type(() => RatingHistogramDto)
+  @ValidateNested()
+  communication: RatingHistogramDto;
+
+  // histograms of every dimension the user was rated in
+  @Type(() => DimensionHistogramDto)
+  @ValidateNested({ each: true })
+  scores: DimensionHistogramDto[];
+
+  reviewsCount: number;
+  commentsCount: number;
+  // mean of all the ratings, over all categories
+  overallRating: number;
+}
@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDate, IsEnum, IsOptional, ValidateNested } from 'class-validator';
+import { ReviewScoreDto } from './rating-dimension.dto';
+
+export enum RatingTrendBucket {
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+export class RatingTrendQueryDto {
+  @IsOptional()
+  @IsEnum(RatingTrendBucket)
+  @ApiProperty({
+    name: 'bucket',
+    description: 'Size of the time buckets',
+    enum: RatingTrendBucket,
+    required: false,
+    default: RatingTrendBucket.MONTH,
+  })
+  bucket?: RatingTrendBucket;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @ApiProperty({
+    name: 'from',
+    description: 'Only reviews posted after this date',
+    required: false,
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @ApiProperty({
+    name: 'to',
+    description: 'Only reviews posted before this date',
+    required: false,
+    example: '2024-12-31T23:59:59.999Z',
+  })
+  to?: Date;
+}
+
+export class RatingTrendPointDto {
+  @ApiProperty({ description: 'Start of the week or month' })
+  @Type(() => Date)
+  @IsDate()
+  bucket: Date;
+
+  count: number;
+  professionalism?: number;
+  reliability?: number;
+  communication?: number;
+
+  @ApiProperty({
+    description:
+      'Average ratings in every dimension rated during the week or month.',
+  })
+  @Type(() => ReviewScoreDto)
+  @ValidateNested({ each: true })
+  scores: ReviewScoreDto[];
+}
@@ -1,5 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ValidateNested } from 'class-validator';
+import { ReputationScoreDto } from './reputation-score.dto';
+import { ReviewScoreDto } from './rating-dimension.dto';
+
 export class RatingDto {
   professionalism: number;
   communication: number;
   reliability: number;
+
+  @ApiProperty({
+    description: 'Average rating in every dimension the user was rated in.',
+  })
+  @Type(() => ReviewScoreDto)
+  @ValidateNested({ each: true })
+  scores: ReviewScoreDto[];
+
+  // not set for unknown users
+  reputation?: ReputationScoreDto;
 }
@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ValidateNested } from 'class-validator';
+import { ReviewScoreDto } from './rating-dimension.dto';
+
+export class ReputationScoreDto {
+  @ApiProperty({
+    description:
+      'Professionalism rating adjusted by the number, age and trust of the reviews',
+  })
+  professionalism: number;
+
+  @ApiProperty({
+    description:
+      'Reliability rating adjusted by the number, age and trust of the reviews',
+  })
+  reliability: number;
+
+  @ApiProperty({
+    description:
+      'Communication rating adjusted by the number, age and trust of the reviews',
+  })
+  communication: number;
+
+  @ApiProperty({
+    description:
+      'Rating in every dimension adjusted by the number, age and trust of the reviews',
+  })
+  @Type(() => ReviewScoreDto)
+  @ValidateNested({ each: true })
+  scores: ReviewScoreDto[];
+
+  @ApiProperty({
+    description:
+      'Overall rating adjusted by the number, age and trust of the reviews',
+  })
+  overall: number;
+
+  @ApiProperty({
+    description:
+      'How much the score relies on the reviews of the user rather than on the platform averages, from 0 to 1',
+    minimum: 0,
+    maximum: 1,
+  })
+  confidence: number;
+
+  reviewsCount: number;
+}
@@ -0,0 +1,74 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export const MAX_COLLECTION_NAME_LENGTH = 50;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 200;
+
+export class ReviewCollectionDto {
+  id: string;
+  name: string;
+  description?: string;
+
+  @ApiProperty({
+    description: 'Public collections are shown on the profile of their owner',
+  })
+  isPublic: boolean;
+
+  userId: string;
+  favoritesCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateReviewCollectionDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_COLLECTION_NAME_LENGTH)
+  @ApiProperty({ example: 'Teamwork' })
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(MAX_COLLECTION_DESCRIPTION_LENGTH)
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  @ApiProperty({ required: false, default: false })
+  isPublic?: boolean;
+}
+
+export class UpdateReviewCollectionDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_COLLECTION_NAME_LENGTH)
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(MAX_COLLECTION_DESCRIPTION_LENGTH)
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isPublic?: boolean;
+}
+
+export class FavoriteReviewsQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsString()
+  @ApiProperty({
+    name: 'collectionId',
+    description: 'Only the favorites filed in this collection',
+    required: false,
+  })
+  collectionId?: string;
+}
@@ -0,0 +1,58 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsInt,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { SkillNames } from './skill.dto';
+import { RatingScoreDto, RatingScores } from './rating-dimension.dto';
+
+// Drafts are only checked against CreateReviewDto when they are published
+export class SaveReviewDraftDto {
+  @IsInt()
+  @IsOptional()
+  professionalism?: number;
+
+  @IsInt()
+  @IsOptional()
+  reliability?: number;
+
+  @IsInt()
+  @IsOptional()
+  communication?: number;
+
+  @RatingScores()
+  scores?: RatingScoreDto[];
+
+  @IsString()
+  @IsOptional()
+  comment?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  anonymous?: boolean;
+
+  @SkillNames()
+  skills?: string[];
+}
+
+export class ReviewDraftDto {
+  postedToId: string;
+  professionalism?: number;
+  reliability?: number;
+  communication?: number;
+  scores: RatingScoreDto[];
+  comment?: string;
+  anonymous?: boolean;
+  skills: string[];
+
+  @Type(() => Date)
+  @IsDate()
+  createdAt: Date;
+
+  @Type(() => Date)
+  @IsDate()
+  updatedAt: Date;
+}
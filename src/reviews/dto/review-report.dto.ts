@@ -0,0 +1,89 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ReviewReportReason, ReviewReportStatus } from '@prisma/client';
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ReviewDto } from './reviews.dto';
+
+export enum ReviewReportAction {
+  DISMISS = 'DISMISS',
+  BLOCK_REVIEW = 'BLOCK_REVIEW',
+  WARN_AUTHOR = 'WARN_AUTHOR',
+}
+
+export class ReportReviewDto {
+  @IsEnum(ReviewReportReason)
+  @ApiProperty({
+    name: 'reason',
+    description: 'Why the review is reported',
+    enum: ReviewReportReason,
+    required: true,
+    example: ReviewReportReason.OFFENSIVE,
+  })
+  reason: ReviewReportReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  @ApiProperty({
+    name: 'details',
+    description: 'Free text describing the problem',
+    required: false,
+    example: 'The review insults me personally.',
+  })
+  details?: string;
+}
+
+export class ResolveReviewReportDto {
+  @IsEnum(ReviewReportAction)
+  @ApiProperty({
+    name: 'action',
+    description:
+      'DISMISS keeps the review public, BLOCK_REVIEW blocks it, WARN_AUTHOR keeps the review and warns its author.',
+    enum: ReviewReportAction,
+    required: true,
+    example: ReviewReportAction.BLOCK_REVIEW,
+  })
+  action: ReviewReportAction;
+
+  @IsOptional()
+  @IsString()
+  @ApiProperty({
+    name: 'note',
+    description:
+      'Note about the resolution. Used as the block reason or the warning sent to the author.',
+    required: false,
+    example: 'Personal attacks are not allowed.',
+  })
+  note?: string;
+}
+
+export class ReviewReportDto {
+  id: string;
+  reviewId: string;
+
+  @IsEnum(ReviewReportReason)
+  reason: ReviewReportReason;
+
+  details?: string;
+
+  @IsEnum(ReviewReportStatus)
+  status: ReviewReportStatus;
+
+  @Type(() => Date)
+  @IsDate()
+  createdAt: Date;
+
+  resolutionNote?: string;
+
+  @Type(() => ReviewDto)
+  @IsOptional()
+  @ValidateNested()
+  review?: ReviewDto;
+}
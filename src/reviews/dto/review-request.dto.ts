@@ -0,0 +1,108 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ReviewRequestStatus } from '@prisma/client';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsDate,
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { PostedByDTO } from './reviews.dto';
+
+export class CreateReviewRequestDto {
+  @IsOptional()
+  @IsString()
+  @ApiProperty({
+    name: 'userId',
+    description:
+      'User to ask for a review. Either userId or email is required.',
+    required: false,
+  })
+  userId?: string;
+
+  @IsOptional()
+  @IsEmail()
+  @Transform(({ value }) => value?.toLowerCase().trim())
+  @ApiProperty({
+    name: 'email',
+    description:
+      'Email of the person to ask for a review, who does not need to have an account. Either userId or email is required.',
+    required: false,
+    example: 'janedoe@example.com',
+  })
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @ApiProperty({
+    name: 'message',
+    description: 'Personal message added to the invitation',
+    required: false,
+    example: 'Hi! Could you review our work together on the website?',
+  })
+  message?: string;
+}
+
+export class ReviewRequestDto {
+  id: string;
+
+  @Type(() => PostedByDTO)
+  @IsOptional()
+  @ValidateNested()
+  recipient?: PostedByDTO;
+
+  // set when the request was sent to an email address
+  email?: string;
+  message?: string;
+
+  @IsEnum(ReviewRequestStatus)
+  status: ReviewRequestStatus;
+
+  @ApiProperty({
+    description: 'True if the request can no longer be answered.',
+  })
+  isExpired: boolean;
+
+  @Type(() => Date)
+  @IsDate()
+  createdAt: Date;
+
+  @Type(() => Date)
+  @IsDate()
+  expiresAt: Date;
+
+  @Type(() => Date)
+  @IsOptional()
+  @IsDate()
+  openedAt?: Date;
+
+  @Type(() => Date)
+  @IsOptional()
+  @IsDate()
+  respondedAt?: Date;
+}
+
+// What the recipient sees when opening the invite link
+export class ReviewInvitationDto {
+  id: string;
+
+  @ApiProperty({
+    description: 'The user to review, to be used as postedToId.',
+  })
+  @Type(() => PostedByDTO)
+  @ValidateNested()
+  requestedBy: PostedByDTO;
+
+  message?: string;
+
+  @IsEnum(ReviewRequestStatus)
+  status: ReviewRequestStatus;
+
+  @Type(() => Date)
+  @IsDate()
+  expiresAt: Date;
+}
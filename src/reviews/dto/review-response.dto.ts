@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDate, IsNotEmpty, IsString } from 'class-validator';
+
+export class ReviewResponseDto {
+  id: string;
+  comment: string;
+
+  @Type(() => Date)
+  @IsDate()
+  createdAt: Date;
+
+  @Type(() => Date)
+  @IsDate()
+  updatedAt: Date;
+}
+
+export class ReviewResponseBodyDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    name: 'comment',
+    description: 'Public answer of the reviewed user',
+    required: true,
+    example: 'Thank you for the kind words!',
+  })
+  comment: string;
+}
@@ -0,0 +1,21 @@
+import { Type } from 'class-transformer';
+import { IsDate, ValidateNested } from 'class-validator';
+import { RatingScoreDto } from './rating-dimension.dto';
+
+export class ReviewRevisionDto {
+  id: string;
+  professionalism?: number;
+  reliability?: number;
+  communication?: number;
+
+  @Type(() => RatingScoreDto)
+  @ValidateNested({ each: true })
+  scores: RatingScoreDto[];
+
+  comment?: string;
+  isAnonymous: boolean;
+
+  @Type(() => Date)
+  @IsDate()
+  createdAt: Date;
+}
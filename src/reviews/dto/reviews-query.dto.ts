@@ -0,0 +1,108 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export enum ReviewSort {
+  NEWEST = 'newest',
+  OLDEST = 'oldest',
+  HIGHEST = 'highest',
+  LOWEST = 'lowest',
+  MOST_LIKED = 'most_liked',
+}
+
+// query params are strings, "false" has to become false
+const toBoolean = ({ value }) =>
+  value === undefined ? undefined : value === true || value === 'true';
+
+// Declares an optional 1-5 rating filter
+const RatingFilter = (description: string) =>
+  applyDecorators(
+    IsOptional(),
+    Type(() => Number),
+    IsInt(),
+    Min(1),
+    Max(5),
+    ApiProperty({ description, required: false, minimum: 1, maximum: 5 }),
+  );
+
+export class ReviewsQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsEnum(ReviewSort)
+  @ApiProperty({
+    name: 'sort',
+    enum: ReviewSort,
+    required: false,
+    default: ReviewSort.NEWEST,
+  })
+  sort?: ReviewSort;
+
+  @RatingFilter('Minimum professionalism rating')
+  minProfessionalism?: number;
+
+  @RatingFilter('Maximum professionalism rating')
+  maxProfessionalism?: number;
+
+  @RatingFilter('Minimum reliability rating')
+  minReliability?: number;
+
+  @RatingFilter('Maximum reliability rating')
+  maxReliability?: number;
+
+  @RatingFilter('Minimum communication rating')
+  minCommunication?: number;
+
+  @RatingFilter('Maximum communication rating')
+  maxCommunication?: number;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  @ApiProperty({
+    name: 'hasComment',
+    description: 'Only reviews with (true) or without (false) a comment',
+    required: false,
+  })
+  hasComment?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  @ApiProperty({
+    name: 'anonymousOnly',
+    description: 'Only anonymous reviews',
+    required: false,
+  })
+  anonymousOnly?: boolean;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @ApiProperty({
+    name: 'from',
+    description: 'Only reviews posted after this date',
+    required: false,
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @ApiProperty({
+    name: 'to',
+    description: 'Only reviews posted before this date',
+    required: false,
+    example: '2024-12-31T23:59:59.999Z',
+  })
+  to?: Date;
+}
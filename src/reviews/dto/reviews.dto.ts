@@ -2,6 +2,9 @@ import { ApiProperty } from '@nestjs/swagger';
 import { ReviewState } from '@prisma/client';
 import { Type } from 'class-transformer';
 import { IsDate, IsEnum, IsOptional, ValidateNested } from 'class-validator';
+import { ReviewResponseDto } from './review-response.dto';
+import { SkillDto } from './skill.dto';
+import { ReviewScoreDto } from './rating-dimension.dto';
 
 export class PostedByDTO {
   name?: string;
@@ -14,9 +17,18 @@ export class PostedByDTO {
 export class ReviewDto {
   id: string;
   comment: string;
-  professionalism: number;
-  reliability: number;
-  communication: number;
+  // legacy fields, undefined when the dimension was not rated
+  professionalism?: number;
+  reliability?: number;
+  communication?: number;
+
+  @ApiProperty({
+    description: 'Ratings of the review in every dimension it was rated in.',
+  })
+  @Type(() => ReviewScoreDto)
+  @ValidateNested({ each: true })
+  scores: ReviewScoreDto[];
+
   @Type(() => Date)
   @IsDate()
   createdAt: Date;
@@ -31,6 +43,17 @@ export class ReviewDto {
   isAnonymous: boolean;
   isFavorite: boolean;
 
+  @ApiProperty({
+    description: 'Number of users who liked the review.',
+  })
+  likesCount: number;
+
+  @ApiProperty({
+    description:
+      'True if the reviewed user featured the review at the top of their profile.',
+  })
+  isFeatured: boolean;
+
   @Type(() => PostedByDTO)
   @IsOptional()
   @ValidateNested()
@@ -38,4 +61,39 @@ export class ReviewDto {
 
   @IsEnum(ReviewState)
   state: ReviewState;
+
+  @ApiProperty({
+    description: 'Last time the author edited the review, if ever.',
+  })
+  @Type(() => Date)
+  @IsOptional()
+  @IsDate()
+  editedAt?: Date;
+
+  @ApiProperty({
+    description:
+      'Number of stored versions of the review, including the original one.',
+  })
+  revisionCount: number;
+
+  @ApiProperty({
+    description:
+      'Reason given by the moderator that approved or blocked the review. Only visible to its author.',
+  })
+  moderationReason?: string;
+
+  @ApiProperty({
+    description: 'Public answer of the reviewed user, if any.',
+  })
+  @Type(() => ReviewResponseDto)
+  @IsOptional()
+  @ValidateNested()
+  response?: ReviewResponseDto;
+
+  @ApiProperty({
+    description: 'Skills the reviewed user is praised for in the review.',
+  })
+  @Type(() => SkillDto)
+  @ValidateNested({ each: true })
+  skills: SkillDto[];
 }
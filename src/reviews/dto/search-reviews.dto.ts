@@ -0,0 +1,99 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+import { ReviewDto } from './reviews.dto';
+
+export class SearchReviewsQueryDto extends PaginationQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  @ApiProperty({
+    name: 'q',
+    description:
+      'Words to search in the review comments. Supports "quoted phrases", OR and -excluded words.',
+    example: 'reliable "great communication"',
+  })
+  q: string;
+
+  @IsOptional()
+  @IsString()
+  @ApiProperty({
+    name: 'postedToId',
+    description: 'Only reviews of this user',
+    required: false,
+  })
+  postedToId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(5)
+  @ApiProperty({
+    name: 'minRating',
+    description: 'Minimum overall rating',
+    required: false,
+    minimum: 1,
+    maximum: 5,
+  })
+  minRating?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(5)
+  @ApiProperty({
+    name: 'maxRating',
+    description: 'Maximum overall rating',
+    required: false,
+    minimum: 1,
+    maximum: 5,
+  })
+  maxRating?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @ApiProperty({
+    name: 'from',
+    description: 'Only reviews posted after this date',
+    required: false,
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @ApiProperty({
+    name: 'to',
+    description: 'Only reviews posted before this date',
+    required: false,
+    example: '2024-12-31T23:59:59.999Z',
+  })
+  to?: Date;
+}
+
+export class ReviewSearchResultDto extends ReviewDto {
+  @ApiProperty({
+    description: 'Relevance of the review for the search, higher is better.',
+  })
+  rank: number;
+
+  @ApiProperty({
+    description:
+      'Parts of the comment matching the search, HTML-escaped, with the matches wrapped in <mark></mark>.',
+  })
+  snippet: string;
+}
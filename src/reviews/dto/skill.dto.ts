@@ -0,0 +1,78 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const MAX_SKILLS_PER_REVIEW = 10;
+export const MAX_SKILL_NAME_LENGTH = 50;
+const DEFAULT_SKILLS_LIMIT = 10;
+const MAX_SKILLS_LIMIT = 50;
+
+// Declares the optional list of skill names a review is tagged with
+export const SkillNames = () =>
+  applyDecorators(
+    IsOptional(),
+    IsArray(),
+    ArrayMaxSize(MAX_SKILLS_PER_REVIEW),
+    IsString({ each: true }),
+    IsNotEmpty({ each: true }),
+    MaxLength(MAX_SKILL_NAME_LENGTH, { each: true }),
+    ApiProperty({
+      description:
+        'Skills the reviewed user is praised for. Unknown skills are added to the catalog.',
+      required: false,
+      maxItems: MAX_SKILLS_PER_REVIEW,
+      example: ['TypeScript', 'Leadership'],
+    }),
+  );
+
+export class SkillsLimitQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SKILLS_LIMIT)
+  @ApiProperty({
+    name: 'limit',
+    description: 'Maximum number of skills to return',
+    required: false,
+    minimum: 1,
+    maximum: MAX_SKILLS_LIMIT,
+    default: DEFAULT_SKILLS_LIMIT,
+  })
+  limit: number = DEFAULT_SKILLS_LIMIT;
+}
+
+export class SearchSkillsQueryDto extends SkillsLimitQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_SKILL_NAME_LENGTH)
+  @ApiProperty({
+    name: 'q',
+    description: 'Part of the skill name',
+    example: 'type',
+  })
+  q: string;
+}
+
+export class SkillDto {
+  id: string;
+  name: string;
+}
+
+export class EndorsedSkillDto extends SkillDto {
+  @ApiProperty({
+    description: 'Number of approved reviews tagged with the skill',
+  })
+  count: number;
+}
@@ -1,4 +1,6 @@
 import { IsBoolean, IsNumber, IsOptional, IsString } from 'class-validator';
+import { SkillNames } from './skill.dto';
+import { RatingScoreDto, RatingScores } from './rating-dimension.dto';
 
 export class UpdateReviewDto {
   @IsString()
@@ -13,7 +15,13 @@ export class UpdateReviewDto {
   @IsNumber()
   @IsOptional()
   communication?: number;
+  // only the given dimensions are updated
+  @RatingScores()
+  scores?: RatingScoreDto[];
   @IsBoolean()
   @IsOptional()
   anonymous?: boolean;
+  // replaces all the skills of the review
+  @SkillNames()
+  skills?: string[];
 }
@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { User } from '@prisma/client';
+import { CurrentUser } from '../../src/decorators/current-user.decorator';
+import { FeaturedReviewsService } from './featured-reviews.service';
+import { ReviewDto } from './dto/reviews.dto';
+import { ReorderFeaturedReviewsDto } from './dto/featured-reviews.dto';
+
+@Controller('reviews/featured')
+@ApiBearerAuth()
+@ApiTags('Featured reviews controller')
+export class FeaturedReviewsController {
+  constructor(
+    private readonly featuredReviewsService: FeaturedReviewsService,
+  ) {}
+
+  /**
+   * Change the order of the reviews featured by the current user
+   */
+  @Put()
+  @ApiBadRequestResponse()
+  async reorderFeaturedReviews(
+    @CurrentUser() user: User,
+    @Body() data: ReorderFeaturedReviewsDto,
+  ): Promise<ReviewDto[]> {
+    return this.featuredReviewsService.reorderFeaturedReviews(user, data);
+  }
+
+  /**
+   * Get the reviews a user featured at the top of their profile
+   */
+  @Get('/:userId')
+  async getFeaturedReviews(
+    @CurrentUser() user: User,
+    @Param('userId') userId: string,
+  ): Promise<ReviewDto[]> {
+    return this.featuredReviewsService.getFeaturedReviews(user.id, userId);
+  }
+
+  /**
+   * Feature a review at the top of the profile. Only the reviewed user can do this, for
+   * approved reviews.
+   */
+  @Post('/:reviewId')
+  @ApiNotFoundResponse()
+  @ApiForbiddenResponse()
+  @ApiBadRequestResponse()
+  async featureReview(
+    @CurrentUser() user: User,
+    @Param('reviewId') reviewId: string,
+  ): Promise<ReviewDto[]> {
+    return this.featuredReviewsService.featureReview(user, reviewId);
+  }
+
+  /**
+   * Stop featuring a review. Only the reviewed user can do this.
+   */
+  @Delete('/:reviewId')
+  @ApiNotFoundResponse()
+  @ApiForbiddenResponse()
+  async unfeatureReview(
+    @CurrentUser() user: User,
+    @Param('reviewId') reviewId: string,
+  ): Promise<ReviewDto[]> {
+    return this.featuredReviewsService.unfeatureReview(user, reviewId);
+  }
+}
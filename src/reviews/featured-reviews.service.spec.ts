@@ -0,0 +1,101 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReviewState, User } from '@prisma/client';
+import { FeaturedReviewsService } from './featured-reviews.service';
+import { ReviewsService } from './reviews.service';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { MAX_FEATURED_REVIEWS } from './dto/featured-reviews.dto';
+
+describe('FeaturedReviewsService', () => {
+  let service: FeaturedReviewsService;
+  let prisma: {
+    review: {
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      aggregate: jest.Mock;
+      update: jest.Mock;
+    };
+    $transaction: jest.Mock;
+  };
+
+  const user = { id: '1' } as User;
+
+  beforeEach(async () => {
+    prisma = {
+      review: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'review',
+          postedToId: user.id,
+          state: ReviewState.APPROVED,
+          featuredPosition: null,
+        }),
+        findMany: jest.fn().mockResolvedValue([]),
+        aggregate: jest.fn(),
+        update: jest.fn(),
+      },
+      $transaction: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeaturedReviewsService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ReviewsService,
+          useValue: {
+            getVisibleReviewsFilter: jest.fn().mockReturnValue({}),
+            includeWithReview: jest.fn(),
+            transformReview: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FeaturedReviewsService>(FeaturedReviewsService);
+  });
+
+  it('should feature a review after the featured ones', async () => {
+    prisma.review.aggregate.mockResolvedValue({
+      _count: { _all: 2 },
+      _max: { featuredPosition: 4 },
+    });
+
+    await service.featureReview(user, 'review');
+
+    expect(prisma.review.update).toHaveBeenCalledWith({
+      where: { id: 'review' },
+      data: { featuredPosition: 5 },
+    });
+  });
+
+  it('should not feature more than the maximum of reviews', async () => {
+    prisma.review.aggregate.mockResolvedValue({
+      _count: { _all: MAX_FEATURED_REVIEWS },
+      _max: { featuredPosition: MAX_FEATURED_REVIEWS - 1 },
+    });
+
+    await expect(service.featureReview(user, 'review')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(prisma.review.update).not.toHaveBeenCalled();
+  });
+
+  it('should only reorder the featured reviews listed exactly once', async () => {
+    prisma.review.findMany.mockResolvedValueOnce([{ id: 'a' }, { id: 'b' }]);
+
+    for (const reviewIds of [['a'], ['a', 'a'], ['a', 'c'], ['a', 'b', 'c']]) {
+      await expect(
+        service.reorderFeaturedReviews(user, { reviewIds }),
+      ).rejects.toThrow('Every featured review has to be listed exactly once');
+      prisma.review.findMany.mockResolvedValueOnce([{ id: 'a' }, { id: 'b' }]);
+    }
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+
+    await service.reorderFeaturedReviews(user, { reviewIds: ['b', 'a'] });
+    expect(prisma.review.update).toHaveBeenNthCalledWith(1, {
+      where: { id: 'b' },
+      data: { featuredPosition: 0 },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
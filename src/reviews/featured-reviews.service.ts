@@ -0,0 +1,147 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Review, ReviewState, User } from '@prisma/client';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { ReviewsService } from './reviews.service';
+import { ReviewDto } from './dto/reviews.dto';
+import {
+  MAX_FEATURED_REVIEWS,
+  ReorderFeaturedReviewsDto,
+} from './dto/featured-reviews.dto';
+
+@Injectable()
+export class FeaturedReviewsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reviewsService: ReviewsService,
+  ) {}
+
+  // only the reviewed user can feature a review
+  private async getReceivedReview(user: User, reviewId: Review['id']) {
+    const review = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+    });
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    if (review.postedToId !== user.id) {
+      throw new ForbiddenException(
+        `User ${user.id} can't feature review ${reviewId}`,
+      );
+    }
+
+    return review;
+  }
+
+  /**
+   * Get the reviews featured by a user, in their order
+   */
+  async getFeaturedReviews(
+    currentUserId: User['id'],
+    userId: User['id'],
+  ): Promise<ReviewDto[]> {
+    const reviews = await this.prisma.review.findMany({
+      where: {
+        postedToId: userId,
+        featuredPosition: { not: null },
+        state: ReviewState.APPROVED,
+        ...this.reviewsService.getVisibleReviewsFilter(currentUserId),
+      },
+      include: this.reviewsService.includeWithReview(currentUserId),
+      orderBy: { featuredPosition: 'asc' },
+    });
+
+    return reviews.map((r) =>
+      this.reviewsService.transformReview(r, currentUserId),
+    );
+  }
+
+  /**
+   * Feature an approved review received by the user, after the ones already featured
+   */
+  async featureReview(
+    user: User,
+    reviewId: Review['id'],
+  ): Promise<ReviewDto[]> {
+    const review = await this.getReceivedReview(user, reviewId);
+
+    if (review.state !== ReviewState.APPROVED) {
+      throw new BadRequestException('Only approved reviews can be featured');
+    }
+
+    if (review.featuredPosition === null) {
+      const featured = await this.prisma.review.aggregate({
+        where: { postedToId: user.id, featuredPosition: { not: null } },
+        _count: { _all: true },
+        _max: { featuredPosition: true },
+      });
+
+      if (featured._count._all >= MAX_FEATURED_REVIEWS) {
+        throw new BadRequestException(
+          `You can feature up to ${MAX_FEATURED_REVIEWS} reviews`,
+        );
+      }
+
+      await this.prisma.review.update({
+        where: { id: reviewId },
+        data: { featuredPosition: (featured._max.featuredPosition ?? -1) + 1 },
+      });
+    }
+
+    return this.getFeaturedReviews(user.id, user.id);
+  }
+
+  async unfeatureReview(
+    user: User,
+    reviewId: Review['id'],
+  ): Promise<ReviewDto[]> {
+    await this.getReceivedReview(user, reviewId);
+
+    await this.prisma.review.update({
+      where: { id: reviewId },
+      data: { featuredPosition: null },
+    });
+
+    return this.getFeaturedReviews(user.id, user.id);
+  }
+
+  /**
+   * Change the order of the featured reviews. Every featured review has to be listed once.
+   */
+  async reorderFeaturedReviews(
+    user: User,
+    { reviewIds }: ReorderFeaturedReviewsDto,
+  ): Promise<ReviewDto[]> {
+    const featured = await this.prisma.review.findMany({
+      where: { postedToId: user.id, featuredPosition: { not: null } },
+      select: { id: true },
+    });
+
+    const isSameSet =
+      new Set(reviewIds).size === reviewIds.length &&
+      reviewIds.length === featured.length &&
+      featured.every((r) => reviewIds.includes(r.id));
+    if (!isSameSet) {
+      throw new BadRequestException(
+        'Every featured review has to be listed exactly once',
+      );
+    }
+
+    await this.prisma.$transaction(
+      reviewIds.map((id, position) =>
+        this.prisma.review.update({
+          where: { id },
+          data: { featuredPosition: position },
+        }),
+      ),
+    );
+
+    return this.getFeaturedReviews(user.id, user.id);
+  }
+}
@@ -0,0 +1,73 @@
+import { Body, Controller, Get, Param, Post, Put } from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { Roles } from '../../src/decorators/roles.decorator';
+import { RatingDimensionsService } from './rating-dimensions.service';
+import {
+  CreateRatingDimensionDto,
+  RatingDimensionDto,
+  UpdateRatingDimensionDto,
+} from './dto/rating-dimension.dto';
+
+@Controller('reviews/dimensions')
+@ApiBearerAuth()
+@ApiTags('Rating dimensions controller')
+export class RatingDimensionsController {
+  constructor(
+    private readonly ratingDimensionsService: RatingDimensionsService,
+  ) {}
+
+  /**
+   * Get the dimensions reviews are rated in, in the order they should be shown.
+   */
+  @Get()
+  async getDimensions(): Promise<RatingDimensionDto[]> {
+    return this.ratingDimensionsService.getDimensionDtos();
+  }
+
+  /**
+   * Get all the dimensions, including the inactive ones. Only admins can do this.
+   */
+  @Get('/all')
+  @Roles(UserRole.ADMIN)
+  @ApiForbiddenResponse()
+  async getAllDimensions(): Promise<RatingDimensionDto[]> {
+    return this.ratingDimensionsService.getDimensionDtos(true);
+  }
+
+  /**
+   * Add a dimension to rate reviews in. Only admins can do this.
+   */
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiForbiddenResponse()
+  @ApiBadRequestResponse()
+  @ApiConflictResponse()
+  async createDimension(
+    @Body() data: CreateRatingDimensionDto,
+  ): Promise<RatingDimensionDto> {
+    return this.ratingDimensionsService.createDimension(data);
+  }
+
+  /**
+   * Rename, reorder, deactivate or reactivate a dimension. Only admins can do this.
+   */
+  @Put('/:dimensionId')
+  @Roles(UserRole.ADMIN)
+  @ApiForbiddenResponse()
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  async updateDimension(
+    @Param('dimensionId') dimensionId: string,
+    @Body() data: UpdateRatingDimensionDto,
+  ): Promise<RatingDimensionDto> {
+    return this.ratingDimensionsService.updateDimension(dimensionId, data);
+  }
+}
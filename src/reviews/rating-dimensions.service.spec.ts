@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RatingDimensionsService } from './rating-dimensions.service';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('RatingDimensionsService', () => {
+  let service: RatingDimensionsService;
+  let prisma: { ratingDimension: { findMany: jest.Mock } };
+
+  const dimension = (id: string, active = true) => ({
+    id,
+    label: id[0].toUpperCase() + id.slice(1),
+    active,
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      ratingDimension: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            dimension('professionalism'),
+            dimension('reliability'),
+            dimension('communication', false),
+            dimension('kindness'),
+          ]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RatingDimensionsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<RatingDimensionsService>(RatingDimensionsService);
+  });
+
+  it('should prefer the scores over the legacy fields', () => {
+    expect(
+      service.mergeScores({
+        professionalism: 2,
+        reliability: 3,
+        scores: [{ dimension: 'professionalism', rating: 5 }],
+      }),
+    ).toEqual({ professionalism: 5, reliability: 3 });
+  });
+
+  it('should ignore the legacy fields of inactive dimensions', async () => {
+    const scores = await service.getScores(
+      { professionalism: 4, reliability: 4, communication: 4 },
+      true,
+    );
+
+    expect(scores).toEqual({ professionalism: 4, reliability: 4 });
+  });
+
+  it('should not rate inactive or unknown dimensions', async () => {
+    await expect(
+      service.getScores(
+        { scores: [{ dimension: 'communication', rating: 4 }] },
+        false,
+      ),
+    ).rejects.toThrow('Communication cannot be rated');
+    await expect(
+      service.getScores({ scores: [{ dimension: 'humor', rating: 4 }] }, false),
+    ).rejects.toThrow('Unknown rating dimension humor');
+  });
+
+  it('should only require the active legacy dimensions', async () => {
+    const error = await service
+      .getScores({ professionalism: 4 }, true)
+      .catch((e) => e);
+    expect(error.getResponse().message).toEqual([
+      'Reliability rating is required',
+    ]);
+
+    await expect(
+      service.getScores({ professionalism: 4, reliability: 4 }, true),
+    ).resolves.toEqual({ professionalism: 4, reliability: 4 });
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { RatingDimension } from '@prisma/client';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import {
+  CreateRatingDimensionDto,
+  RatingDimensionDto,
+  RatingScoreDto,
+  ReviewScoreDto,
+  UpdateRatingDimensionDto,
+} from './dto/rating-dimension.dto';
+
+// ratings by dimension id, e.g. { professionalism: 5 }
+export type DimensionScores = Record<RatingDimension['id'], number>;
+
+// the dimensions that used to be columns of the review, still accepted and returned as fields of their own
+export const LEGACY_DIMENSIONS = [
+  'professionalism',
+  'reliability',
+  'communication',
+] as const;
+
+export type LegacyRatings = Partial<
+  Record<(typeof LEGACY_DIMENSIONS)[number], number>
+>;
+
+export type RatingsInput = LegacyRatings & { scores?: RatingScoreDto[] };
+
+/**
+ * Manages the catalog of dimensions reviews are rated in, and converts the ratings sent
+ * by clients, either as legacy fields or as a list of scores, to ratings by dimension.
+ */
+@Injectable()
+export class RatingDimensionsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  private toDto(dimension: RatingDimension): RatingDimensionDto {
+    return {
+      id: dimension.id,
+      label: dimension.label,
+      position: dimension.position,
+      active: dimension.active,
+    };
+  }
+
+  async getDimensions(includeInactive = false): Promise<RatingDimension[]> {
+    return this.prisma.ratingDimension.findMany({
+      where: includeInactive ? {} : { active: true },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  async getDimensionDtos(
+    includeInactive = false,
+  ): Promise<RatingDimensionDto[]> {
+    const dimensions = await this.getDimensions(includeInactive);
+    return dimensions.map((d) => this.toDto(d));
+  }
+
+  async createDimension(
+    data: CreateRatingDimensionDto,
+  ): Promise<RatingDimensionDto> {
+    const existingDimension = await this.prisma.ratingDimension.findUnique({
+      where: { id: data.id },
+    });
+
+    if (existingDimension) {
+      throw new ConflictException(`Dimension ${data.id} already exists`);
+    }
+
+    const dimension = await this.prisma.ratingDimension.create({ data });
+
+    return this.toDto(dimension);
+  }
+
+  async updateDimension(
+    dimensionId: RatingDimension['id'],
+    data: UpdateRatingDimensionDto,
+  ): Promise<RatingDimensionDto> {
+    const existingDimension = await this.prisma.ratingDimension.findUnique({
+      where: { id: dimensionId },
+    });
+
+    if (!existingDimension) {
+      throw new NotFoundException('Dimension not found');
+    }
+
+    const dimension = await this.prisma.ratingDimension.update({
+      where: { id: dimensionId },
+      data,
+    });
+
+    return this.toDto(dimension);
+  }
+
+  /**
+   * Merge the legacy fields and the scores into ratings by dimension, without checking them.
+   * Scores take precedence over the legacy fields.
+   */
+  mergeScores(data: RatingsInput): DimensionScores {
+    const scores: DimensionScores = {};
+
+    for (const dimension of LEGACY_DIMENSIONS) {
+      if (data[dimension] !== undefined && data[dimension] !== null) {
+        scores[dimension] = data[dimension];
+      }
+    }
+
+    for (const score of data.scores ?? []) {
+      scores[score.dimension] = score.rating;
+    }
+
+    return scores;
+  }
+
+  /**
+   * Get the ratings by dimension of a review. Only active dimensions can be rated, and the
+   * active legacy dimensions have to be rated when requireLegacy is set. Dimensions added
+   * later are optional, clients that don't know them yet can still post reviews.
+   */
+  async getScores(
+    data: RatingsInput,
+    requireLegacy: boolean,
+  ): Promise<DimensionScores> {
+    const dimensions = await this.getDimensions(true);
+    const scores = this.mergeScores(data);
+
+    for (const dimensionId of Object.keys(scores)) {
+      const dimension = dimensions.find((d) => d.id === dimensionId);
+
+      if (!dimension) {
+        throw new BadRequestException(
+          `Unknown rating dimension ${dimensionId}`,
+        );
+      }
+
+      if (!dimension.active) {
+        // older clients always send the legacy fields, those are ignored
+        if (
+          (LEGACY_DIMENSIONS as readonly string[]).includes(dimensionId) &&
+          !data.scores?.some((s) => s.dimension === dimensionId)
+        ) {
+          delete scores[dimensionId];
+          continue;
+        }
+
+        throw new BadRequestException(`${dimension.label} cannot be rated`);
+      }
+    }
+
+    if (requireLegacy) {
+      const missingDimensions = dimensions.filter(
+        (d) =>
+          d.active &&
+          (LEGACY_DIMENSIONS as readonly string[]).includes(d.id) &&
+          scores[d.id] === undefined,
+      );
+
+      if (missingDimensions.length > 0) {
+        throw new BadRequestException(
+          missingDimensions.map((d) => `${d.label} rating is required`),
+        );
+      }
+    }
+
+    return scores;
+  }
+
+  // the legacy fields of a DTO, undefined when the dimension was not rated
+  toLegacyRatings(scores: DimensionScores): LegacyRatings {
+    return {
+      professionalism: scores.professionalism,
+      reliability: scores.reliability,
+      communication: scores.communication,
+    };
+  }
+
+  // the scores in the order of their dimensions
+  toScoreDtos(
+    scores: DimensionScores,
+    dimensions: RatingDimension[],
+  ): ReviewScoreDto[] {
+    return dimensions
+      .filter((d) => scores[d.id] !== undefined)
+      .map((d) => ({
+        dimension: d.id,
+        label: d.label,
+        rating: scores[d.id],
+      }));
+  }
+
+  // scores are stored as JSON in revisions, drafts and reputation scores
+  toRatingScoreDtos(scores: DimensionScores): RatingScoreDto[] {
+    return Object.entries(scores).map(([dimension, rating]) => ({
+      dimension,
+      rating,
+    }));
+  }
+}
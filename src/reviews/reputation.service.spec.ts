@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ReputationService } from './reputation.service';
+import { RatingDimensionsService } from './rating-dimensions.service';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { REDIS_CLIENT } from '../../src/provider/redis.provider';
+
+describe('ReputationService', () => {
+  let service: ReputationService;
+  let prisma: {
+    user: { findMany: jest.Mock };
+    review: { findMany: jest.Mock };
+    ratingDimension: { findMany: jest.Mock };
+    reputationScore: { upsert: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  const storedScore = (userId: string, updatedAt: Date) => ({
+    userId,
+    scores: { professionalism: 4 },
+    overall: 4,
+    confidence: 0.5,
+    reviewsCount: 2,
+    updatedAt,
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      user: { findMany: jest.fn() },
+      review: { findMany: jest.fn().mockResolvedValue([]) },
+      ratingDimension: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            { id: 'professionalism', label: 'Professionalism', active: true },
+          ]),
+      },
+      reputationScore: {
+        upsert: jest.fn(({ create }) => create),
+      },
+      $transaction: jest.fn((upserts) => Promise.all(upserts)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReputationService,
+        RatingDimensionsService,
+        ConfigService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: REDIS_CLIENT,
+          useValue: {
+            get: jest
+              .fn()
+              .mockResolvedValue(
+                JSON.stringify({ scores: { professionalism: 3 }, overall: 3 }),
+              ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReputationService>(ReputationService);
+  });
+
+  it('should recalculate the outdated scores together', async () => {
+    const outdated = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    prisma.user.findMany.mockResolvedValue([
+      { id: '1', reputation: null },
+      { id: '2', reputation: storedScore('2', outdated) },
+      { id: '3', reputation: storedScore('3', new Date()) },
+    ]);
+
+    const reputations = await service.getReputations(['1', '2', '3']);
+
+    expect(prisma.review.findMany).toHaveBeenCalledTimes(1);
+    expect(prisma.review.findMany.mock.calls[0][0].where.postedToId).toEqual({
+      in: ['1', '2'],
+    });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.reputationScore.upsert).toHaveBeenCalledTimes(2);
+    expect(reputations.get('1').reviewsCount).toBe(0);
+    expect(reputations.get('2').reviewsCount).toBe(0);
+    expect(reputations.get('3').reviewsCount).toBe(2);
+  });
+
+  it('should not write anything when the scores are up to date', async () => {
+    prisma.user.findMany.mockResolvedValue([
+      { id: '1', reputation: storedScore('1', new Date()) },
+    ]);
+
+    const reputation = await service.getReputation('1');
+
+    expect(reputation.overall).toBe(4);
+    expect(prisma.review.findMany).not.toHaveBeenCalled();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,288 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  RatingDimension,
+  ReputationScore,
+  ReviewState,
+  User,
+} from '@prisma/client';
+import Redis from 'ioredis';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { REDIS_CLIENT } from '../../src/provider/redis.provider';
+import { ReputationScoreDto } from './dto/reputation-score.dto';
+import {
+  DimensionScores,
+  RatingDimensionsService,
+} from './rating-dimensions.service';
+
+type Priors = {
+  scores: DimensionScores;
+  overall: number;
+};
+
+// middle of the scale, until there are reviews
+const DEFAULT_PRIOR = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// platform averages are recalculated at most once per hour
+const PRIORS_CACHE_KEY = 'reputation-score-priors';
+const PRIORS_CACHE_TTL_SECONDS = 60 * 60;
+
+// stored scores older than this are recalculated so that the recency decay is applied
+const MAX_SCORE_AGE_MS = DAY_MS;
+
+// weight of reviews whose author deleted their account
+const UNKNOWN_REVIEWER_TRUST = 0.25;
+
+/**
+ * Computes the reputation of a user, a Bayesian average of their approved reviews.
+ *
+ * Every user starts with the platform-wide averages, counted as if they were
+ * REPUTATION_PRIOR_WEIGHT reviews, and their own reviews move the score away from them.
+ * Each review is weighted by its age (the weight halves every REPUTATION_HALF_LIFE_DAYS)
+ * and by how much its author can be trusted (verified email and account age at the time
+ * of the review).
+ *
+ * The score of a user is stored and recalculated whenever one of their reviews changes,
+ * and once a day when it is read so that older reviews keep losing weight.
+ */
+@Injectable()
+export class ReputationService {
+  private readonly priorWeight: number;
+  private readonly halfLifeDays: number;
+  private readonly trustedAccountAgeDays: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly ratingDimensionsService: RatingDimensionsService,
+    @Inject(REDIS_CLIENT) private cache: Redis,
+  ) {
+    this.priorWeight = Number(
+      this.configService.get<string>('REPUTATION_PRIOR_WEIGHT') ?? 5,
+    );
+    this.halfLifeDays = Number(
+      this.configService.get<string>('REPUTATION_HALF_LIFE_DAYS') ?? 365,
+    );
+    this.trustedAccountAgeDays = Number(
+      this.configService.get<string>('REPUTATION_TRUSTED_ACCOUNT_AGE_DAYS') ??
+        90,
+    );
+  }
+
+  // the scores of inactive dimensions are left out
+  private toDto(
+    score: ReputationScore,
+    dimensions: RatingDimension[],
+  ): ReputationScoreDto {
+    const scores = score.scores as DimensionScores;
+
+    return {
+      professionalism: scores.professionalism ?? DEFAULT_PRIOR,
+      reliability: scores.reliability ?? DEFAULT_PRIOR,
+      communication: scores.communication ?? DEFAULT_PRIOR,
+      scores: this.ratingDimensionsService.toScoreDtos(
+        scores,
+        dimensions.filter((d) => d.active),
+      ),
+      overall: score.overall,
+      confidence: score.confidence,
+      reviewsCount: score.reviewsCount,
+    };
+  }
+
+  // average ratings of all the approved reviews of the platform
+  private async getPriors(): Promise<Priors> {
+    const cachedPriors = JSON.parse(await this.cache.get(PRIORS_CACHE_KEY));
+    if (cachedPriors) {
+      return cachedPriors;
+    }
+
+    const [scores, result] = await Promise.all([
+      this.prisma.reviewScore.groupBy({
+        by: ['dimensionId'],
+        where: { review: { state: ReviewState.APPROVED } },
+        _avg: { rating: true },
+      }),
+      this.prisma.review.aggregate({
+        where: { state: ReviewState.APPROVED },
+        _avg: { overallRating: true },
+      }),
+    ]);
+
+    const priors: Priors = {
+      scores: Object.fromEntries(
+        scores.map((s) => [s.dimensionId, s._avg.rating]),
+      ),
+      overall: result._avg.overallRating ?? DEFAULT_PRIOR,
+    };
+
+    await this.cache.set(
+      PRIORS_CACHE_KEY,
+      JSON.stringify(priors),
+      'EX',
+      PRIORS_CACHE_TTL_SECONDS,
+    );
+
+    return priors;
+  }
+
+  // 1 for a review posted now, 0.5 for a review as old as the half-life
+  private getRecencyWeight(createdAt: Date, now: Date): number {
+    if (this.halfLifeDays <= 0) {
+      return 1;
+    }
+
+    const ageDays = Math.max(0, now.getTime() - createdAt.getTime()) / DAY_MS;
+    return Math.pow(0.5, ageDays / this.halfLifeDays);
+  }
+
+  // 1 for verified accounts that were old enough when they posted the review
+  private getReviewerTrust(
+    reviewer: Pick<User, 'isEmailVerified' | 'joinedAt'> | null,
+    reviewedAt: Date,
+  ): number {
+    if (!reviewer) {
+      return UNKNOWN_REVIEWER_TRUST;
+    }
+
+    const accountAgeDays =
+      (reviewedAt.getTime() - reviewer.joinedAt.getTime()) / DAY_MS;
+    const accountAgeFactor =
+      this.trustedAccountAgeDays <= 0
+        ? 1
+        : Math.min(1, Math.max(0, accountAgeDays) / this.trustedAccountAgeDays);
+
+    return (
+      (reviewer.isEmailVerified ? 1 : 0.5) * (0.5 + 0.5 * accountAgeFactor)
+    );
+  }
+
+  /**
+   * Recalculates and stores the reputation of a user. Only the scores of the users whose
+   * reviews changed need to be recalculated.
+   */
+  async recalculate(userId: User['id']): Promise<ReputationScoreDto> {
+    const reputations = await this.recalculateMany([userId]);
+    return reputations.get(userId);
+  }
+
+  // the reviews of all the users are read at once and their scores are stored together
+  private async recalculateMany(
+    userIds: User['id'][],
+  ): Promise<Map<User['id'], ReputationScoreDto>> {
+    const [priors, dimensions, reviews] = await Promise.all([
+      this.getPriors(),
+      this.ratingDimensionsService.getDimensions(true),
+      this.prisma.review.findMany({
+        where: { postedToId: { in: userIds }, state: ReviewState.APPROVED },
+        select: {
+          postedToId: true,
+          scores: {
+            select: { dimensionId: true, rating: true },
+          },
+          overallRating: true,
+          createdAt: true,
+          postedBy: {
+            select: { isEmailVerified: true, joinedAt: true },
+          },
+        },
+      }),
+    ]);
+
+    const now = new Date();
+    const adjust = (prior: number, sum: number, weight: number) =>
+      (this.priorWeight * prior + sum) / (this.priorWeight + weight);
+
+    const upserts = userIds.map((userId) => {
+      const userReviews = reviews.filter((r) => r.postedToId === userId);
+      // reviews don't have to be rated in every dimension, so each one has its own weight
+      const sums: DimensionScores = {};
+      const weights: DimensionScores = {};
+      let overallSum = 0;
+      let totalWeight = 0;
+
+      for (const review of userReviews) {
+        const weight =
+          this.getRecencyWeight(review.createdAt, now) *
+          this.getReviewerTrust(review.postedBy, review.createdAt);
+
+        for (const { dimensionId, rating } of review.scores) {
+          sums[dimensionId] = (sums[dimensionId] ?? 0) + weight * rating;
+          weights[dimensionId] = (weights[dimensionId] ?? 0) + weight;
+        }
+        overallSum += weight * review.overallRating;
+        totalWeight += weight;
+      }
+
+      const data = {
+        scores: Object.fromEntries(
+          dimensions.map((d) => [
+            d.id,
+            adjust(
+              priors.scores[d.id] ?? DEFAULT_PRIOR,
+              sums[d.id] ?? 0,
+              weights[d.id] ?? 0,
+            ),
+          ]),
+        ),
+        overall: adjust(priors.overall, overallSum, totalWeight),
+        confidence:
+          totalWeight === 0
+            ? 0
+            : totalWeight / (this.priorWeight + totalWeight),
+        reviewsCount: userReviews.length,
+      };
+
+      return this.prisma.reputationScore.upsert({
+        where: { userId },
+        update: data,
+        create: { userId, ...data },
+      });
+    });
+
+    const scores = await this.prisma.$transaction(upserts);
+
+    return new Map(
+      scores.map((score) => [score.userId, this.toDto(score, dimensions)]),
+    );
+  }
+
+  async getReputation(userId: User['id']): Promise<ReputationScoreDto> {
+    const reputations = await this.getReputations([userId]);
+    return reputations.get(userId);
+  }
+
+  // stored scores are returned as is, missing or outdated ones are recalculated. Unknown users are left out.
+  async getReputations(
+    userIds: User['id'][],
+  ): Promise<Map<User['id'], ReputationScoreDto>> {
+    const [users, dimensions] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, reputation: true },
+      }),
+      this.ratingDimensionsService.getDimensions(true),
+    ]);
+
+    const isOutdated = (reputation: ReputationScore | null) =>
+      !reputation ||
+      Date.now() - reputation.updatedAt.getTime() >= MAX_SCORE_AGE_MS;
+
+    const outdatedUserIds = users
+      .filter((u) => isOutdated(u.reputation))
+      .map((u) => u.id);
+    const recalculated =
+      outdatedUserIds.length > 0
+        ? await this.recalculateMany(outdatedUserIds)
+        : new Map<User['id'], ReputationScoreDto>();
+
+    return new Map(
+      users.map(({ id, reputation }) => [
+        id,
+        recalculated.get(id) ?? this.toDto(reputation, dimensions),
+      ]),
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiNotFoundResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { User } from '@prisma/client';
+import { CurrentUser } from '../../src/decorators/current-user.decorator';
+import { ReviewCollectionsService } from './review-collections.service';
+import {
+  CreateReviewCollectionDto,
+  ReviewCollectionDto,
+  UpdateReviewCollectionDto,
+} from './dto/review-collection.dto';
+import { ReviewDto } from './dto/reviews.dto';
+import {
+  PaginatedDto,
+  PaginationQueryDto,
+} from '../../src/common/dto/pagination.dto';
+import { queryPipe } from '../../src/common/pipes/query.pipe';
+
+@Controller('reviews/favorites/collections')
+@ApiBearerAuth()
+@ApiTags('Review collections controller')
+export class ReviewCollectionsController {
+  constructor(
+    private readonly reviewCollectionsService: ReviewCollectionsService,
+  ) {}
+
+  /**
+   * Get the collections of favorite reviews of the current user
+   */
+  @Get()
+  async getCollections(
+    @CurrentUser() user: User,
+  ): Promise<ReviewCollectionDto[]> {
+    return this.reviewCollectionsService.getCollections(user.id, user.id);
+  }
+
+  /**
+   * Get the public collections of a user, to show them on their profile
+   */
+  @Get('/user/:userId')
+  async getUserCollections(
+    @CurrentUser() user: User,
+    @Param('userId') userId: string,
+  ): Promise<ReviewCollectionDto[]> {
+    return this.reviewCollectionsService.getCollections(user.id, userId);
+  }
+
+  /**
+   * Create a named collection to file favorite reviews in
+   */
+  @Post()
+  @ApiBadRequestResponse()
+  @ApiConflictResponse()
+  async createCollection(
+    @CurrentUser() user: User,
+    @Body() data: CreateReviewCollectionDto,
+  ): Promise<ReviewCollectionDto> {
+    return this.reviewCollectionsService.createCollection(user, data);
+  }
+
+  /**
+   * Rename a collection or change its description and visibility
+   */
+  @Put('/:collectionId')
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  @ApiConflictResponse()
+  async updateCollection(
+    @CurrentUser() user: User,
+    @Param('collectionId') collectionId: string,
+    @Body() data: UpdateReviewCollectionDto,
+  ): Promise<ReviewCollectionDto> {
+    return this.reviewCollectionsService.updateCollection(
+      user,
+      collectionId,
+      data,
+    );
+  }
+
+  /**
+   * Delete a collection, its reviews stay in the favorites
+   */
+  @Delete('/:collectionId')
+  @ApiNotFoundResponse()
+  async deleteCollection(
+    @CurrentUser() user: User,
+    @Param('collectionId') collectionId: string,
+  ) {
+    await this.reviewCollectionsService.deleteCollection(user, collectionId);
+    return { ok: true };
+  }
+
+  /**
+   * Get the reviews of an own or public collection, most recently added first
+   */
+  @Get('/:collectionId/reviews')
+  @ApiNotFoundResponse()
+  async getCollectionReviews(
+    @CurrentUser() user: User,
+    @Param('collectionId') collectionId: string,
+    @Query(queryPipe) query: PaginationQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    return this.reviewCollectionsService.getCollectionReviews(
+      user,
+      collectionId,
+      query,
+    );
+  }
+
+  /**
+   * Add a review to a collection, liking it if needed
+   */
+  @Put('/:collectionId/reviews/:reviewId')
+  @ApiNotFoundResponse()
+  async addReviewToCollection(
+    @CurrentUser() user: User,
+    @Param('collectionId') collectionId: string,
+    @Param('reviewId') reviewId: string,
+  ): Promise<ReviewCollectionDto> {
+    return this.reviewCollectionsService.addReviewToCollection(
+      user,
+      collectionId,
+      reviewId,
+    );
+  }
+
+  /**
+   * Remove a review from a collection without unliking it
+   */
+  @Delete('/:collectionId/reviews/:reviewId')
+  @ApiNotFoundResponse()
+  async removeReviewFromCollection(
+    @CurrentUser() user: User,
+    @Param('collectionId') collectionId: string,
+    @Param('reviewId') reviewId: string,
+  ): Promise<ReviewCollectionDto> {
+    return this.reviewCollectionsService.removeReviewFromCollection(
+      user,
+      collectionId,
+      reviewId,
+    );
+  }
+}
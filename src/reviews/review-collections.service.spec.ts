@@ -0,0 +1,100 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { User } from '@prisma/client';
+import { ReviewCollectionsService } from './review-collections.service';
+import { ReviewsService } from './reviews.service';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('ReviewCollectionsService', () => {
+  let service: ReviewCollectionsService;
+  let prisma: {
+    reviewCollection: {
+      findUnique: jest.Mock;
+      update: jest.Mock;
+    };
+  };
+  let reviewsService: { getFavoriteReviews: jest.Mock };
+
+  const owner = { id: 'owner' } as User;
+  const otherUser = { id: 'other' } as User;
+
+  const collection = (isPublic: boolean) => ({
+    id: 'collection',
+    userId: owner.id,
+    name: 'Mentors',
+    isPublic,
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      reviewCollection: {
+        findUnique: jest.fn(),
+        update: jest.fn(({ data }) => ({
+          ...collection(false),
+          ...data,
+          _count: { favorites: 0 },
+        })),
+      },
+    };
+    reviewsService = { getFavoriteReviews: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewCollectionsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ReviewsService, useValue: reviewsService },
+      ],
+    }).compile();
+
+    service = module.get<ReviewCollectionsService>(ReviewCollectionsService);
+  });
+
+  it('should show the reviews of a public collection to other users', async () => {
+    prisma.reviewCollection.findUnique.mockResolvedValue(collection(true));
+
+    await service.getCollectionReviews(otherUser, 'collection', {});
+
+    expect(reviewsService.getFavoriteReviews).toHaveBeenCalledWith(
+      otherUser.id,
+      owner.id,
+      { collectionId: 'collection' },
+    );
+  });
+
+  it('should hide a private collection from other users', async () => {
+    prisma.reviewCollection.findUnique.mockResolvedValue(collection(false));
+
+    await expect(
+      service.getCollectionReviews(otherUser, 'collection', {}),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('should only let the owner change a public collection', async () => {
+    prisma.reviewCollection.findUnique.mockResolvedValue(collection(true));
+
+    await expect(
+      service.updateCollection(otherUser, 'collection', { name: 'Mine' }),
+    ).rejects.toThrow(NotFoundException);
+    expect(prisma.reviewCollection.update).not.toHaveBeenCalled();
+  });
+
+  it('should not rename a collection to the name of another one', async () => {
+    prisma.reviewCollection.findUnique
+      .mockResolvedValueOnce(collection(false))
+      .mockResolvedValueOnce({ ...collection(false), id: 'another' });
+
+    await expect(
+      service.updateCollection(owner, 'collection', { name: 'Mentors' }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('should keep the name of a collection when it is saved again', async () => {
+    prisma.reviewCollection.findUnique.mockResolvedValue(collection(false));
+
+    const updated = await service.updateCollection(owner, 'collection', {
+      name: 'Mentors',
+    });
+
+    expect(updated.name).toBe('Mentors');
+  });
+});
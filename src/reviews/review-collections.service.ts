@@ -0,0 +1,217 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Review, ReviewCollection, User } from '@prisma/client';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { ReviewsService } from './reviews.service';
+import { ReviewDto } from './dto/reviews.dto';
+import {
+  CreateReviewCollectionDto,
+  ReviewCollectionDto,
+  UpdateReviewCollectionDto,
+} from './dto/review-collection.dto';
+import {
+  PaginatedDto,
+  PaginationQueryDto,
+} from '../../src/common/dto/pagination.dto';
+
+type ReviewCollectionWithCount = ReviewCollection & {
+  _count: { favorites: number };
+};
+
+@Injectable()
+export class ReviewCollectionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reviewsService: ReviewsService,
+  ) {}
+
+  private readonly includeWithCollection = {
+    _count: { select: { favorites: true } },
+  };
+
+  private transformCollection(
+    collection: ReviewCollectionWithCount,
+  ): ReviewCollectionDto {
+    return {
+      id: collection.id,
+      name: collection.name,
+      description: collection.description ?? undefined,
+      isPublic: collection.isPublic,
+      userId: collection.userId,
+      favoritesCount: collection._count.favorites,
+      createdAt: collection.createdAt,
+      updatedAt: collection.updatedAt,
+    };
+  }
+
+  // collections of other users are only found when they are public
+  private async findCollection(
+    currentUserId: User['id'],
+    collectionId: ReviewCollection['id'],
+    ownOnly: boolean,
+  ) {
+    const collection = await this.prisma.reviewCollection.findUnique({
+      where: { id: collectionId },
+    });
+
+    const canAccess =
+      collection &&
+      (collection.userId === currentUserId ||
+        (!ownOnly && collection.isPublic));
+    if (!canAccess) {
+      throw new NotFoundException('Collection not found');
+    }
+
+    return collection;
+  }
+
+  private async checkNameIsFree(
+    userId: User['id'],
+    name: string,
+    collectionId?: ReviewCollection['id'],
+  ) {
+    const existingCollection = await this.prisma.reviewCollection.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+
+    if (existingCollection && existingCollection.id !== collectionId) {
+      throw new ConflictException(`Collection ${name} already exists`);
+    }
+  }
+
+  /**
+   * Get the collections of a user. Other users only see the public ones.
+   */
+  async getCollections(
+    currentUserId: User['id'],
+    userId: User['id'],
+  ): Promise<ReviewCollectionDto[]> {
+    const collections = await this.prisma.reviewCollection.findMany({
+      where: {
+        userId,
+        ...(userId !== currentUserId ? { isPublic: true } : {}),
+      },
+      include: this.includeWithCollection,
+      orderBy: { name: 'asc' },
+    });
+
+    return collections.map((c) => this.transformCollection(c));
+  }
+
+  async createCollection(
+    user: User,
+    data: CreateReviewCollectionDto,
+  ): Promise<ReviewCollectionDto> {
+    await this.checkNameIsFree(user.id, data.name);
+
+    const collection = await this.prisma.reviewCollection.create({
+      data: { ...data, userId: user.id },
+      include: this.includeWithCollection,
+    });
+
+    return this.transformCollection(collection);
+  }
+
+  async updateCollection(
+    user: User,
+    collectionId: ReviewCollection['id'],
+    data: UpdateReviewCollectionDto,
+  ): Promise<ReviewCollectionDto> {
+    await this.findCollection(user.id, collectionId, true);
+    if (data.name) {
+      await this.checkNameIsFree(user.id, data.name, collectionId);
+    }
+
+    const collection = await this.prisma.reviewCollection.update({
+      where: { id: collectionId },
+      data,
+      include: this.includeWithCollection,
+    });
+
+    return this.transformCollection(collection);
+  }
+
+  /**
+   * Delete a collection. Its reviews stay in the favorites of the user.
+   */
+  async deleteCollection(
+    user: User,
+    collectionId: ReviewCollection['id'],
+  ): Promise<void> {
+    await this.findCollection(user.id, collectionId, true);
+
+    await this.prisma.reviewCollection.delete({ where: { id: collectionId } });
+  }
+
+  async getCollectionReviews(
+    user: User,
+    collectionId: ReviewCollection['id'],
+    query: PaginationQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    const collection = await this.findCollection(user.id, collectionId, false);
+
+    return this.reviewsService.getFavoriteReviews(user.id, collection.userId, {
+      ...query,
+      collectionId,
+    });
+  }
+
+  /**
+   * File a review in a collection. The review is liked if it wasn't yet, and moved out of
+   * its previous collection since a favorite belongs to one collection at most.
+   */
+  async addReviewToCollection(
+    user: User,
+    collectionId: ReviewCollection['id'],
+    reviewId: Review['id'],
+  ): Promise<ReviewCollectionDto> {
+    await this.findCollection(user.id, collectionId, true);
+
+    const review = await this.reviewsService.getReview(user.id, reviewId);
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    await this.prisma.favoriteReview.upsert({
+      where: { userId_reviewId: { userId: user.id, reviewId } },
+      update: { collectionId },
+      create: { userId: user.id, reviewId, collectionId },
+    });
+
+    return this.transformCollection(
+      await this.prisma.reviewCollection.findUniqueOrThrow({
+        where: { id: collectionId },
+        include: this.includeWithCollection,
+      }),
+    );
+  }
+
+  /**
+   * Take a review out of a collection, it stays in the favorites of the user.
+   */
+  async removeReviewFromCollection(
+    user: User,
+    collectionId: ReviewCollection['id'],
+    reviewId: Review['id'],
+  ): Promise<ReviewCollectionDto> {
+    await this.findCollection(user.id, collectionId, true);
+
+    const { count } = await this.prisma.favoriteReview.updateMany({
+      where: { userId: user.id, reviewId, collectionId },
+      data: { collectionId: null },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Review not found in the collection');
+    }
+
+    return this.transformCollection(
+      await this.prisma.reviewCollection.findUniqueOrThrow({
+        where: { id: collectionId },
+        include: this.includeWithCollection,
+      }),
+    );
+  }
+}
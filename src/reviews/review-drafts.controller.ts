@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiNotFoundResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { User } from '@prisma/client';
+import { CurrentUser } from '../../src/decorators/current-user.decorator';
+import { ReviewDraftsService } from './review-drafts.service';
+import { ReviewDraftDto, SaveReviewDraftDto } from './dto/review-draft.dto';
+import { ReviewDto } from './dto/reviews.dto';
+
+@Controller('reviews/drafts')
+@ApiBearerAuth()
+@ApiTags('Review drafts controller')
+export class ReviewDraftsController {
+  constructor(private readonly reviewDraftsService: ReviewDraftsService) {}
+
+  /**
+   * Get all the drafts of the current user, last edited first.
+   */
+  @Get()
+  async getDrafts(@CurrentUser() user: User): Promise<ReviewDraftDto[]> {
+    return this.reviewDraftsService.getDrafts(user);
+  }
+
+  /**
+   * Get the draft of the current user for the specified user
+   */
+  @Get('/:postedToId')
+  @ApiNotFoundResponse()
+  async getDraft(
+    @CurrentUser() user: User,
+    @Param('postedToId') postedToId: string,
+  ): Promise<ReviewDraftDto> {
+    return this.reviewDraftsService.getDraft(user, postedToId);
+  }
+
+  /**
+   * Save the draft of the current user for the specified user. The ratings are only
+   * checked when the draft is published.
+   */
+  @Put('/:postedToId')
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  async saveDraft(
+    @CurrentUser() user: User,
+    @Param('postedToId') postedToId: string,
+    @Body() data: SaveReviewDraftDto,
+  ): Promise<ReviewDraftDto> {
+    return this.reviewDraftsService.saveDraft(user, postedToId, data);
+  }
+
+  @Delete('/:postedToId')
+  @ApiNotFoundResponse()
+  async deleteDraft(
+    @CurrentUser() user: User,
+    @Param('postedToId') postedToId: string,
+  ): Promise<void> {
+    return this.reviewDraftsService.deleteDraft(user, postedToId);
+  }
+
+  /**
+   * Publish the draft as a review. The draft is deleted once the review is posted.
+   */
+  @Post('/:postedToId/publish')
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  @ApiConflictResponse()
+  async publishDraft(
+    @CurrentUser() user: User,
+    @Param('postedToId') postedToId: string,
+  ): Promise<ReviewDto> {
+    return this.reviewDraftsService.publishDraft(user, postedToId);
+  }
+}
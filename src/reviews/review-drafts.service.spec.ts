@@ -0,0 +1,89 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { User } from '@prisma/client';
+import { ReviewDraftsService } from './review-drafts.service';
+import { ReviewsService } from './reviews.service';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { RatingDimensionsService } from './rating-dimensions.service';
+
+describe('ReviewDraftsService', () => {
+  let service: ReviewDraftsService;
+  let prisma: {
+    user: { findUnique: jest.Mock };
+    reviewDraft: { findUnique: jest.Mock; upsert: jest.Mock };
+  };
+  let reviewsService: { createReview: jest.Mock };
+
+  const user = { id: '1' } as User;
+
+  const draft = (scores: Record<string, number>) => ({
+    id: 'draft',
+    postedById: user.id,
+    postedToId: '2',
+    scores,
+    comment: 'Great job',
+    anonymous: null,
+    skills: ['TypeScript'],
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      user: { findUnique: jest.fn().mockResolvedValue({ id: '2' }) },
+      reviewDraft: {
+        findUnique: jest.fn(),
+        upsert: jest.fn(({ create }) => create),
+      },
+    };
+    reviewsService = { createReview: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewDraftsService,
+        RatingDimensionsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ReviewsService, useValue: reviewsService },
+      ],
+    }).compile();
+
+    service = module.get<ReviewDraftsService>(ReviewDraftsService);
+  });
+
+  it('should clear the fields missing from a saved draft', async () => {
+    await service.saveDraft(user, '2', { professionalism: 4 });
+
+    expect(prisma.reviewDraft.upsert.mock.calls[0][0].update).toEqual({
+      scores: { professionalism: 4 },
+      comment: null,
+      anonymous: null,
+      skills: [],
+    });
+  });
+
+  it('should publish a draft as a review', async () => {
+    prisma.reviewDraft.findUnique.mockResolvedValue(
+      draft({ professionalism: 4 }),
+    );
+
+    await service.publishDraft(user, '2');
+
+    const [, postedToId, review, draftId] =
+      reviewsService.createReview.mock.calls[0];
+    expect(postedToId).toBe('2');
+    expect(review.scores).toEqual([
+      { dimension: 'professionalism', rating: 4 },
+    ]);
+    expect(review.skills).toEqual(['TypeScript']);
+    expect(draftId).toBe('draft');
+  });
+
+  it('should not publish a draft that is not a valid review', async () => {
+    prisma.reviewDraft.findUnique.mockResolvedValue(
+      draft({ professionalism: 7 }),
+    );
+
+    await expect(service.publishDraft(user, '2')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(reviewsService.createReview).not.toHaveBeenCalled();
+  });
+});
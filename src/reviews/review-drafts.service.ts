@@ -0,0 +1,150 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ReviewDraft, User } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { ReviewsService } from './reviews.service';
+import { ReviewDto } from './dto/reviews.dto';
+import { CreateReviewDto } from './dto/create-review.dto';
+import { ReviewDraftDto, SaveReviewDraftDto } from './dto/review-draft.dto';
+import {
+  DimensionScores,
+  RatingDimensionsService,
+} from './rating-dimensions.service';
+
+@Injectable()
+export class ReviewDraftsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reviewsService: ReviewsService,
+    private readonly ratingDimensionsService: RatingDimensionsService,
+  ) {}
+
+  private transformDraft(draft: ReviewDraft): ReviewDraftDto {
+    const scores = draft.scores as DimensionScores;
+
+    return {
+      postedToId: draft.postedToId,
+      ...this.ratingDimensionsService.toLegacyRatings(scores),
+      scores: this.ratingDimensionsService.toRatingScoreDtos(scores),
+      comment: draft.comment ?? undefined,
+      anonymous: draft.anonymous ?? undefined,
+      skills: draft.skills,
+      createdAt: draft.createdAt,
+      updatedAt: draft.updatedAt,
+    };
+  }
+
+  private async findDraft(user: User, postedToId: User['id']) {
+    const draft = await this.prisma.reviewDraft.findUnique({
+      where: {
+        postedById_postedToId: {
+          postedById: user.id,
+          postedToId,
+        },
+      },
+    });
+
+    if (!draft) {
+      throw new NotFoundException('Draft not found');
+    }
+
+    return draft;
+  }
+
+  async getDrafts(user: User): Promise<ReviewDraftDto[]> {
+    const drafts = await this.prisma.reviewDraft.findMany({
+      where: { postedById: user.id },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return drafts.map((d) => this.transformDraft(d));
+  }
+
+  async getDraft(user: User, postedToId: User['id']): Promise<ReviewDraftDto> {
+    return this.transformDraft(await this.findDraft(user, postedToId));
+  }
+
+  /**
+   * Create or replace the draft of the user for postedToId.
+   */
+  async saveDraft(
+    user: User,
+    postedToId: User['id'],
+    data: SaveReviewDraftDto,
+  ): Promise<ReviewDraftDto> {
+    if (user.id === postedToId) {
+      throw new BadRequestException('You cannot rate yourself');
+    }
+
+    const ratedUser = await this.prisma.user.findUnique({
+      where: { id: postedToId },
+    });
+
+    if (!ratedUser) {
+      throw new NotFoundException('User not found');
+    }
+
+    // fields missing from the body are cleared, the draft is replaced as a whole
+    const content = {
+      scores: this.ratingDimensionsService.mergeScores(data),
+      comment: data.comment ?? null,
+      anonymous: data.anonymous ?? null,
+      skills: data.skills ?? [],
+    };
+
+    const draft = await this.prisma.reviewDraft.upsert({
+      where: {
+        postedById_postedToId: {
+          postedById: user.id,
+          postedToId,
+        },
+      },
+      update: content,
+      create: {
+        postedById: user.id,
+        postedToId,
+        ...content,
+      },
+    });
+
+    return this.transformDraft(draft);
+  }
+
+  async deleteDraft(user: User, postedToId: User['id']): Promise<void> {
+    const draft = await this.findDraft(user, postedToId);
+
+    await this.prisma.reviewDraft.delete({
+      where: { id: draft.id },
+    });
+  }
+
+  /**
+   * Post the draft as a review. The draft has to be a valid review by then.
+   */
+  async publishDraft(user: User, postedToId: User['id']): Promise<ReviewDto> {
+    const draft = await this.findDraft(user, postedToId);
+
+    const review = plainToInstance(CreateReviewDto, {
+      scores: this.ratingDimensionsService.toRatingScoreDtos(
+        draft.scores as DimensionScores,
+      ),
+      comment: draft.comment ?? undefined,
+      anonymous: draft.anonymous ?? undefined,
+      skills: draft.skills,
+    });
+
+    const errors = await validate(review);
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        errors.flatMap((e) => Object.values(e.constraints ?? {})),
+      );
+    }
+
+    return this.reviewsService.createReview(user, postedToId, review, draft.id);
+  }
+}
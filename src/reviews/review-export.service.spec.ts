@@ -0,0 +1,97 @@
+import { StreamableFile } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { User } from '@prisma/client';
+import { ReviewExportService } from './review-export.service';
+import { ReviewsService } from './reviews.service';
+import { RatingDimensionsService } from './rating-dimensions.service';
+import { ExportFormat } from './dto/export-reviews.dto';
+
+describe('ReviewExportService', () => {
+  let service: ReviewExportService;
+  let reviewsService: { getUserReviews: jest.Mock };
+
+  const user = { id: '1' } as User;
+
+  const review = (id: string, comment: string) => ({
+    id,
+    createdAt: new Date('2024-07-01T00:00:00.000Z'),
+    state: 'APPROVED',
+    postedToId: user.id,
+    postedBy: { id: '2', name: 'Jane' },
+    isAnonymous: false,
+    scores: [
+      { dimension: 'professionalism', label: 'Professionalism', rating: 4 },
+    ],
+    skills: [],
+    comment,
+  });
+
+  const readCsv = async (file: StreamableFile) => {
+    let csv = '';
+    for await (const chunk of file.getStream()) {
+      csv += chunk;
+    }
+    return csv.split('\r\n');
+  };
+
+  beforeEach(async () => {
+    reviewsService = { getUserReviews: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewExportService,
+        { provide: ReviewsService, useValue: reviewsService },
+        {
+          provide: RatingDimensionsService,
+          useValue: {
+            getDimensions: jest
+              .fn()
+              .mockResolvedValue([
+                { id: 'professionalism', label: 'Professionalism' },
+              ]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReviewExportService>(ReviewExportService);
+  });
+
+  it('should export every page of reviews', async () => {
+    reviewsService.getUserReviews
+      .mockResolvedValueOnce({ items: [review('a', 'Good')], nextCursor: 'b' })
+      .mockResolvedValueOnce({
+        items: [review('b', 'Fine')],
+        nextCursor: null,
+      });
+
+    const lines = await readCsv(
+      await service.exportReviews(user, { format: ExportFormat.CSV }),
+    );
+
+    expect(lines[1]).toBe(
+      'a,2024-07-01T00:00:00.000Z,APPROVED,1,2,Jane,false,4,4,,Good,',
+    );
+    expect(lines[2]).toMatch(/^b,/);
+    expect(reviewsService.getUserReviews.mock.calls[1][2].cursor).toBe('b');
+  });
+
+  it('should keep spreadsheets from running the comments as formulas', async () => {
+    reviewsService.getUserReviews.mockResolvedValue({
+      items: [
+        review('a', '=HYPERLINK("http://evil.example")'),
+        review('b', '-2+3'),
+        review('c', '@SUM(A1)'),
+      ],
+      nextCursor: null,
+    });
+
+    const lines = await readCsv(
+      await service.exportReviews(user, { format: ExportFormat.CSV }),
+    );
+
+    expect(lines[1]).toMatch(/,"'=HYPERLINK\(""http:\/\/evil.example""\)",$/);
+    expect(lines[2]).toMatch(/,'-2\+3,$/);
+    expect(lines[3]).toMatch(/,'@SUM\(A1\),$/);
+  });
+});
@@ -0,0 +1,322 @@
+import { Injectable, StreamableFile } from '@nestjs/common';
+import { User } from '@prisma/client';
+import { Readable } from 'stream';
+import { MAX_PAGE_SIZE } from '../../src/common/dto/pagination.dto';
+import { PdfColor, PdfDocument } from '../../src/utils/pdf';
+import { ReviewsService } from './reviews.service';
+import { RatingDimensionsService } from './rating-dimensions.service';
+import { ReviewDto } from './dto/reviews.dto';
+import {
+  ExportFormat,
+  ExportReviewsQueryDto,
+  ExportScope,
+} from './dto/export-reviews.dto';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.JSON]: 'application/json; charset=utf-8',
+  [ExportFormat.PDF]: 'application/pdf',
+};
+
+const BRAND_COLOR: PdfColor = [0.16, 0.2, 0.55];
+const TEXT_COLOR: PdfColor = [0.13, 0.13, 0.13];
+const MUTED_COLOR: PdfColor = [0.45, 0.45, 0.45];
+const WHITE: PdfColor = [1, 1, 1];
+const MARGIN = 50;
+const HISTOGRAM_WIDTH = 200;
+
+type DimensionSummary = {
+  label: string;
+  total: number;
+  count: number;
+  // number of 1 to 5 star ratings
+  histogram: number[];
+};
+
+// values are quoted when needed, and the ones a spreadsheet would run as a formula are prefixed
+const toCsvValue = (value: string | number | boolean | undefined | null) => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (values: Parameters<typeof toCsvValue>[0][]) =>
+  `${values.map(toCsvValue).join(',')}\r\n`;
+
+const getOverallRating = (review: ReviewDto) =>
+  review.scores.length > 0
+    ? Math.round(
+        (review.scores.reduce((sum, s) => sum + s.rating, 0) /
+          review.scores.length) *
+          100,
+      ) / 100
+    : undefined;
+
+@Injectable()
+export class ReviewExportService {
+  constructor(
+    private readonly reviewsService: ReviewsService,
+    private readonly ratingDimensionsService: RatingDimensionsService,
+  ) {}
+
+  // goes through the same listings as the API, so the export shows exactly what the user can see
+  private async *getReviews(
+    user: User,
+    scope: ExportScope,
+  ): AsyncGenerator<ReviewDto> {
+    let cursor: string | undefined;
+    do {
+      const query = { limit: MAX_PAGE_SIZE, cursor };
+      const page =
+        scope === ExportScope.POSTED
+          ? await this.reviewsService.getReviewPostedBy(user.id, query)
+          : await this.reviewsService.getUserReviews(user, user.id, query);
+
+      for (const review of page.items) {
+        yield review;
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  private async *toJson(
+    user: User,
+    scope: ExportScope,
+  ): AsyncGenerator<string> {
+    let separator = '';
+    yield '[';
+    for await (const review of this.getReviews(user, scope)) {
+      yield `${separator}${JSON.stringify(review)}`;
+      separator = ',';
+    }
+    yield ']';
+  }
+
+  // the author columns stay empty for anonymous reviews, their DTO doesn't carry the author
+  private async *toCsv(user: User, scope: ExportScope): AsyncGenerator<string> {
+    const dimensions = await this.ratingDimensionsService.getDimensions(true);
+
+    yield toCsvRow([
+      'id',
+      'createdAt',
+      'state',
+      'postedToId',
+      'postedById',
+      'postedByName',
+      'anonymous',
+      'overallRating',
+      ...dimensions.map((d) => d.label),
+      'skills',
+      'comment',
+      'response',
+    ]);
+
+    for await (const review of this.getReviews(user, scope)) {
+      const ratings = new Map(
+        review.scores.map((s) => [s.dimension, s.rating]),
+      );
+
+      yield toCsvRow([
+        review.id,
+        new Date(review.createdAt).toISOString(),
+        review.state,
+        review.postedToId,
+        review.postedBy?.id,
+        review.postedBy?.name,
+        review.isAnonymous,
+        getOverallRating(review),
+        ...dimensions.map((d) => ratings.get(d.id)),
+        review.skills.map((s) => s.name).join('; '),
+        review.comment,
+        review.response?.comment,
+      ]);
+    }
+  }
+
+  private async toPdf(user: User, scope: ExportScope): Promise<Buffer> {
+    const reviews: ReviewDto[] = [];
+    for await (const review of this.getReviews(user, scope)) {
+      reviews.push(review);
+    }
+
+    const summaries = new Map<string, DimensionSummary>();
+    for (const { dimension, label, rating } of reviews.flatMap(
+      (r) => r.scores,
+    )) {
+      const summary = summaries.get(dimension) ?? {
+        label,
+        total: 0,
+        count: 0,
+        histogram: [0, 0, 0, 0, 0],
+      };
+      summary.total += rating;
+      summary.count++;
+      summary.histogram[rating - 1]++;
+      summaries.set(dimension, summary);
+    }
+
+    const doc = new PdfDocument();
+    const contentWidth = doc.width - MARGIN * 2;
+    let y = 0;
+
+    // starts a new page when the next block doesn't fit in the current one
+    const ensureSpace = (height: number) => {
+      if (y + height > doc.height - MARGIN) {
+        doc.addPage();
+        y = MARGIN;
+      }
+    };
+
+    doc.addPage();
+    doc.rect(0, 0, doc.width, 80, BRAND_COLOR);
+    doc.text('Culero', MARGIN, 42, { size: 24, bold: true, color: WHITE });
+    doc.text(
+      `Reviews ${scope === ExportScope.POSTED ? 'posted' : 'received'} by ${user.name ?? user.email ?? user.id}`,
+      MARGIN,
+      64,
+      { size: 12, color: WHITE },
+    );
+    doc.text(
+      `Generated on ${new Date().toISOString().slice(0, 10)}`,
+      doc.width - MARGIN - 120,
+      64,
+      { size: 9, color: WHITE },
+    );
+
+    y = 115;
+    const overallRatings = reviews
+      .map(getOverallRating)
+      .filter((r) => r !== undefined);
+    const overall =
+      overallRatings.reduce((sum, r) => sum + r, 0) /
+      (overallRatings.length || 1);
+    doc.text(
+      `${reviews.length} review${reviews.length === 1 ? '' : 's'}`,
+      MARGIN,
+      y,
+      { size: 14, bold: true, color: TEXT_COLOR },
+    );
+    if (overallRatings.length > 0) {
+      doc.text(`Overall average ${overall.toFixed(1)} / 5`, MARGIN + 150, y, {
+        size: 14,
+        color: TEXT_COLOR,
+      });
+    }
+    y += 30;
+
+    const dimensions = await this.ratingDimensionsService.getDimensions(true);
+    for (const { id } of dimensions) {
+      const summary = summaries.get(id);
+      if (!summary) {
+        continue;
+      }
+
+      ensureSpace(85);
+      doc.text(summary.label, MARGIN, y, { bold: true, color: TEXT_COLOR });
+      doc.text(
+        `${(summary.total / summary.count).toFixed(1)} / 5`,
+        MARGIN + 150,
+        y,
+        { color: TEXT_COLOR },
+      );
+      y += 14;
+
+      const max = Math.max(...summary.histogram);
+      for (let rating = 5; rating >= 1; rating--) {
+        const count = summary.histogram[rating - 1];
+        const barWidth = (count / max) * HISTOGRAM_WIDTH;
+        doc.text(`${rating}`, MARGIN + 10, y, { size: 8, color: MUTED_COLOR });
+        doc.rect(MARGIN + 25, y - 7, HISTOGRAM_WIDTH, 8, [0.92, 0.92, 0.92]);
+        if (barWidth > 0) {
+          doc.rect(MARGIN + 25, y - 7, barWidth, 8, BRAND_COLOR);
+        }
+        doc.text(`${count}`, MARGIN + 35 + HISTOGRAM_WIDTH, y, {
+          size: 8,
+          color: MUTED_COLOR,
+        });
+        y += 11;
+      }
+      y += 12;
+    }
+
+    for (const review of reviews) {
+      const author =
+        scope === ExportScope.POSTED
+          ? `To user ${review.postedToId}`
+          : review.postedBy?.name ?? 'Anonymous';
+      const comment = review.comment
+        ? PdfDocument.wrap(review.comment, contentWidth, 10)
+        : [];
+      const response = review.response
+        ? PdfDocument.wrap(
+            `Response: ${review.response.comment}`,
+            contentWidth,
+            9,
+          )
+        : [];
+
+      ensureSpace(50 + (comment.length + response.length) * 13);
+      doc.rect(MARGIN, y - 10, contentWidth, 0.5, MUTED_COLOR);
+      y += 6;
+      doc.text(
+        `${new Date(review.createdAt).toISOString().slice(0, 10)} - ${author}`,
+        MARGIN,
+        y,
+        { bold: true, color: TEXT_COLOR },
+      );
+      y += 14;
+      doc.text(
+        review.scores.map((s) => `${s.label} ${s.rating}/5`).join(' · '),
+        MARGIN,
+        y,
+        { size: 9, color: MUTED_COLOR },
+      );
+      y += 14;
+      for (const line of comment) {
+        doc.text(line, MARGIN, y, { color: TEXT_COLOR });
+        y += 13;
+      }
+      for (const line of response) {
+        doc.text(line, MARGIN + 10, y, { size: 9, color: MUTED_COLOR });
+        y += 12;
+      }
+      y += 14;
+    }
+
+    return doc.toBuffer();
+  }
+
+  /**
+   * Export the reviews received or posted by the user. CSV and JSON are streamed page by
+   * page, the PDF report needs every review for its averages and histograms.
+   */
+  async exportReviews(
+    user: User,
+    { format, scope = ExportScope.RECEIVED }: ExportReviewsQueryDto,
+  ): Promise<StreamableFile> {
+    const options = {
+      type: CONTENT_TYPES[format],
+      disposition: `attachment; filename="culero-reviews-${scope}.${format}"`,
+    };
+
+    switch (format) {
+      case ExportFormat.CSV:
+        return new StreamableFile(
+          Readable.from(this.toCsv(user, scope)),
+          options,
+        );
+      case ExportFormat.JSON:
+        return new StreamableFile(
+          Readable.from(this.toJson(user, scope)),
+          options,
+        );
+      case ExportFormat.PDF:
+        return new StreamableFile(await this.toPdf(user, scope), options);
+    }
+  }
+}
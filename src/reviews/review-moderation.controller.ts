@@ -0,0 +1,117 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  ReviewReportStatus,
+  ReviewState,
+  User,
+  UserRole,
+} from '@prisma/client';
+import { CurrentUser } from '../../src/decorators/current-user.decorator';
+import { Roles } from '../../src/decorators/roles.decorator';
+import { ReviewsService } from './reviews.service';
+import { ReviewDto } from './dto/reviews.dto';
+import { ApproveReviewDto, BlockReviewDto } from './dto/moderate-review.dto';
+import {
+  ResolveReviewReportDto,
+  ReviewReportDto,
+} from './dto/review-report.dto';
+import { ReviewReportsService } from './review-reports.service';
+
+@Controller('reviews/moderation')
+@ApiBearerAuth()
+@ApiTags('Reviews moderation controller')
+@ApiForbiddenResponse()
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+export class ReviewModerationController {
+  constructor(
+    private readonly reviewsService: ReviewsService,
+    private readonly reviewReportsService: ReviewReportsService,
+  ) {}
+
+  /**
+   * Get the reviews waiting for moderation, oldest first.
+   */
+  @Get()
+  async getPendingReviews(@CurrentUser() user: User): Promise<ReviewDto[]> {
+    return this.reviewsService.getPendingReviews(user.id);
+  }
+
+  /**
+   * Get the review reports with the given status (open by default), oldest first.
+   */
+  @Get('/reports')
+  async getReports(
+    @CurrentUser() user: User,
+    @Query('status', new ParseEnumPipe(ReviewReportStatus, { optional: true }))
+    status?: ReviewReportStatus,
+  ): Promise<ReviewReportDto[]> {
+    return this.reviewReportsService.getReports(user, status);
+  }
+
+  /**
+   * Resolve a report: dismiss it, block the review or warn its author.
+   * All the open reports of the same review are resolved at once.
+   */
+  @Post('/reports/:reportId/resolve')
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  async resolveReport(
+    @CurrentUser() user: User,
+    @Param('reportId') reportId: string,
+    @Body() data: ResolveReviewReportDto,
+  ): Promise<ReviewReportDto> {
+    return this.reviewReportsService.resolveReport(user, reportId, data);
+  }
+
+  /**
+   * Approve a review. The review becomes public and counts towards the user's ratings.
+   */
+  @Post('/:reviewId/approve')
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  async approveReview(
+    @CurrentUser() user: User,
+    @Param('reviewId') reviewId: string,
+    @Body() { reason }: ApproveReviewDto,
+  ): Promise<ReviewDto> {
+    return this.reviewsService.moderateReview(
+      user,
+      reviewId,
+      ReviewState.APPROVED,
+      reason,
+    );
+  }
+
+  /**
+   * Block a review. The review is hidden from everyone except its author.
+   */
+  @Post('/:reviewId/block')
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  async blockReview(
+    @CurrentUser() user: User,
+    @Param('reviewId') reviewId: string,
+    @Body() { reason }: BlockReviewDto,
+  ): Promise<ReviewDto> {
+    return this.reviewsService.moderateReview(
+      user,
+      reviewId,
+      ReviewState.BLOCKED,
+      reason,
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ReviewState, User } from '@prisma/client';
+import { ReviewModerationPolicy } from './review-moderation.policy';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('ReviewModerationPolicy', () => {
+  let prisma: { review: { count: jest.Mock } };
+
+  const author = {
+    id: '1',
+    isEmailVerified: true,
+    joinedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
+  } as User;
+  const review = { scores: { professionalism: 4, reliability: 5 } };
+
+  const createPolicy = async (config: Record<string, string>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewModerationPolicy,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+
+    return module.get<ReviewModerationPolicy>(ReviewModerationPolicy);
+  };
+
+  beforeEach(() => {
+    prisma = { review: { count: jest.fn().mockResolvedValue(0) } };
+  });
+
+  it('should approve every review when moderation is disabled', async () => {
+    const policy = await createPolicy({});
+
+    await expect(
+      policy.getInitialState({ ...author, isEmailVerified: false }, review),
+    ).resolves.toBe(ReviewState.APPROVED);
+  });
+
+  it('should approve the reviews that pass every rule', async () => {
+    const policy = await createPolicy({
+      REVIEW_MODERATION_ENABLED: 'true',
+      REVIEW_AUTO_APPROVE_MIN_ACCOUNT_AGE_DAYS: '7',
+      REVIEW_AUTO_APPROVE_MIN_RATING: '3',
+    });
+
+    await expect(policy.getInitialState(author, review)).resolves.toBe(
+      ReviewState.APPROVED,
+    );
+  });
+
+  it('should send the reviews failing a rule to moderation', async () => {
+    const policy = await createPolicy({
+      REVIEW_MODERATION_ENABLED: 'true',
+      REVIEW_AUTO_APPROVE_MIN_ACCOUNT_AGE_DAYS: '30',
+      REVIEW_AUTO_APPROVE_MIN_RATING: '3',
+    });
+
+    await expect(policy.getInitialState(author, review)).resolves.toBe(
+      ReviewState.PENDING,
+    );
+    await expect(
+      policy.getInitialState(
+        { ...author, joinedAt: new Date(0) },
+        { scores: { professionalism: 2 } },
+      ),
+    ).resolves.toBe(ReviewState.PENDING);
+  });
+
+  it('should trust the authors with enough approved reviews', async () => {
+    const policy = await createPolicy({
+      REVIEW_MODERATION_ENABLED: 'true',
+      REVIEW_AUTO_APPROVE_MIN_APPROVED_REVIEWS: '2',
+    });
+
+    await expect(policy.getInitialState(author, review)).resolves.toBe(
+      ReviewState.PENDING,
+    );
+
+    prisma.review.count.mockResolvedValue(2);
+    await expect(policy.getInitialState(author, review)).resolves.toBe(
+      ReviewState.APPROVED,
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ReviewState, User } from '@prisma/client';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { DimensionScores } from './rating-dimensions.service';
+
+type ReviewModerationContext = {
+  author: User;
+  review: { scores: DimensionScores; comment?: string };
+};
+
+type AutoApproveRule = (context: ReviewModerationContext) => Promise<boolean>;
+
+/**
+ * Decides the state a review gets when it is posted or edited.
+ *
+ * When moderation is disabled every review is approved right away. Otherwise, a review
+ * is approved only if all the configured auto-approve rules pass, and it is sent to the
+ * moderation queue (PENDING) if any of them fails.
+ */
+@Injectable()
+export class ReviewModerationPolicy {
+  private readonly enabled: boolean;
+  private readonly requireVerifiedEmail: boolean;
+  private readonly minAccountAgeDays: number;
+  private readonly minApprovedReviews: number;
+  private readonly minRating: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('REVIEW_MODERATION_ENABLED') === 'true';
+    this.requireVerifiedEmail =
+      this.configService.get<string>(
+        'REVIEW_AUTO_APPROVE_REQUIRE_VERIFIED_EMAIL',
+      ) !== 'false';
+    this.minAccountAgeDays = Number(
+      this.configService.get<string>(
+        'REVIEW_AUTO_APPROVE_MIN_ACCOUNT_AGE_DAYS',
+      ) ?? 0,
+    );
+    this.minApprovedReviews = Number(
+      this.configService.get<string>(
+        'REVIEW_AUTO_APPROVE_MIN_APPROVED_REVIEWS',
+      ) ?? 0,
+    );
+    this.minRating = Number(
+      this.configService.get<string>('REVIEW_AUTO_APPROVE_MIN_RATING') ?? 1,
+    );
+  }
+
+  private readonly rules: AutoApproveRule[] = [
+    // The author must have verified their email
+    async ({ author }) => !this.requireVerifiedEmail || author.isEmailVerified,
+
+    // The author's account must be older than the configured number of days
+    async ({ author }) =>
+      Date.now() - author.joinedAt.getTime() >=
+      this.minAccountAgeDays * 24 * 60 * 60 * 1000,
+
+    // Low ratings are checked by a moderator before being published
+    async ({ review }) =>
+      Object.values(review.scores).every((rating) => rating >= this.minRating),
+
+    // The author must already have enough approved reviews to be trusted
+    async ({ author }) => {
+      if (this.minApprovedReviews <= 0) {
+        return true;
+      }
+
+      const approvedReviews = await this.prisma.review.count({
+        where: { postedById: author.id, state: ReviewState.APPROVED },
+      });
+
+      return approvedReviews >= this.minApprovedReviews;
+    },
+  ];
+
+  isModerationEnabled() {
+    return this.enabled;
+  }
+
+  async getInitialState(
+    author: User,
+    review: ReviewModerationContext['review'],
+  ): Promise<ReviewState> {
+    if (!this.enabled) {
+      return ReviewState.APPROVED;
+    }
+
+    for (const rule of this.rules) {
+      if (!(await rule({ author, review }))) {
+        return ReviewState.PENDING;
+      }
+    }
+
+    return ReviewState.APPROVED;
+  }
+}
@@ -0,0 +1,140 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  Prisma,
+  ReviewReportReason,
+  ReviewReportStatus,
+  ReviewState,
+  User,
+} from '@prisma/client';
+import { ReviewReportsService } from './review-reports.service';
+import { ReviewsService } from './reviews.service';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReviewReportAction } from './dto/review-report.dto';
+
+describe('ReviewReportsService', () => {
+  let service: ReviewReportsService;
+  let prisma: {
+    review: { findUnique: jest.Mock };
+    reviewReport: {
+      findUnique: jest.Mock;
+      create: jest.Mock;
+      count: jest.Mock;
+      updateMany: jest.Mock;
+    };
+  };
+  let reviewsService: {
+    sendReviewToModeration: jest.Mock;
+    moderateReview: jest.Mock;
+    includeWithReview: jest.Mock;
+    transformReview: jest.Mock;
+  };
+
+  const user = { id: '1' } as User;
+  const moderator = { id: 'moderator' } as User;
+
+  const report = {
+    id: 'report',
+    reviewId: 'review',
+    reason: ReviewReportReason.SPAM,
+    status: ReviewReportStatus.OPEN,
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      review: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'review',
+          postedById: '2',
+          state: ReviewState.APPROVED,
+        }),
+      },
+      reviewReport: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue(report),
+        count: jest.fn().mockResolvedValue(1),
+        updateMany: jest.fn(),
+      },
+    };
+    reviewsService = {
+      sendReviewToModeration: jest.fn(),
+      moderateReview: jest.fn(),
+      includeWithReview: jest.fn(),
+      transformReview: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewReportsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ReviewsService, useValue: reviewsService },
+        {
+          provide: NotificationsService,
+          useValue: { sendNotificationToUser: jest.fn() },
+        },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<ReviewReportsService>(ReviewReportsService);
+  });
+
+  it('should hide a review once enough users reported it', async () => {
+    await service.reportReview(user, 'review', {
+      reason: ReviewReportReason.SPAM,
+    });
+    expect(reviewsService.sendReviewToModeration).not.toHaveBeenCalled();
+
+    prisma.reviewReport.count.mockResolvedValue(3);
+    await service.reportReview(user, 'review', {
+      reason: ReviewReportReason.SPAM,
+    });
+    expect(reviewsService.sendReviewToModeration).toHaveBeenCalledWith(
+      'review',
+      'Reported by 3 users',
+    );
+  });
+
+  it('should answer a report sent twice at once with a conflict', async () => {
+    prisma.reviewReport.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: Prisma.prismaVersion.client,
+      }),
+    );
+
+    await expect(
+      service.reportReview(user, 'review', { reason: ReviewReportReason.SPAM }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('should only approve again the reviews the reports hid when dismissing them', async () => {
+    // the report is read again once resolved
+    prisma.reviewReport.findUnique.mockResolvedValue(report);
+
+    for (const hiddenByReports of [false, true]) {
+      prisma.reviewReport.findUnique.mockResolvedValueOnce({
+        ...report,
+        review: {
+          id: 'review',
+          state: ReviewState.PENDING,
+          hiddenByReports,
+        },
+      });
+
+      await service.resolveReport(moderator, 'report', {
+        action: ReviewReportAction.DISMISS,
+      });
+    }
+
+    expect(reviewsService.moderateReview).toHaveBeenCalledTimes(1);
+    expect(reviewsService.moderateReview).toHaveBeenCalledWith(
+      moderator,
+      'review',
+      ReviewState.APPROVED,
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  NotificationType,
+  Prisma,
+  Review,
+  ReviewReport,
+  ReviewReportStatus,
+  ReviewState,
+  User,
+} from '@prisma/client';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReviewWithRelations, ReviewsService } from './reviews.service';
+import {
+  ReportReviewDto,
+  ResolveReviewReportDto,
+  ReviewReportAction,
+  ReviewReportDto,
+} from './dto/review-report.dto';
+
+@Injectable()
+export class ReviewReportsService {
+  // number of distinct reports after which a review is hidden until a moderator checks it
+  private readonly reportsThreshold: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reviewsService: ReviewsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.reportsThreshold = Number(
+      this.configService.get<string>('REVIEW_REPORTS_THRESHOLD') ?? 3,
+    );
+  }
+
+  private transformReport(
+    report: ReviewReport & { review?: ReviewWithRelations },
+    currentUserId: User['id'],
+  ): ReviewReportDto {
+    return {
+      id: report.id,
+      reviewId: report.reviewId,
+      reason: report.reason,
+      details: report.details ?? undefined,
+      status: report.status,
+      createdAt: report.createdAt,
+      resolutionNote: report.resolutionNote ?? undefined,
+      review: report.review
+        ? this.reviewsService.transformReview(report.review, currentUserId)
+        : undefined,
+    };
+  }
+
+  async reportReview(
+    user: User,
+    reviewId: Review['id'],
+    data: ReportReviewDto,
+  ): Promise<ReviewReportDto> {
+    const review = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+    });
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    if (review.postedById === user.id) {
+      throw new BadRequestException('You cannot report your own review');
+    }
+
+    const existingReport = await this.prisma.reviewReport.findUnique({
+      where: {
+        reviewId_reportedById: {
+          reviewId,
+          reportedById: user.id,
+        },
+      },
+    });
+
+    if (existingReport) {
+      throw new ConflictException('You have already reported this review');
+    }
+
+    let report: ReviewReport;
+    try {
+      report = await this.prisma.reviewReport.create({
+        data: {
+          reviewId,
+          reportedById: user.id,
+          reason: data.reason,
+          details: data.details,
+        },
+      });
+    } catch (error) {
+      // the same report was sent by another request since the check above
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('You have already reported this review');
+      }
+      throw error;
+    }
+
+    // Hide the review once enough different users reported it
+    if (review.state === ReviewState.APPROVED) {
+      const openReports = await this.prisma.reviewReport.count({
+        where: { reviewId, status: ReviewReportStatus.OPEN },
+      });
+
+      if (openReports >= this.reportsThreshold) {
+        await this.reviewsService.sendReviewToModeration(
+          reviewId,
+          `Reported by ${openReports} users`,
+        );
+      }
+    }
+
+    return this.transformReport(report, user.id);
+  }
+
+  async getReports(
+    moderator: User,
+    status: ReviewReportStatus = ReviewReportStatus.OPEN,
+  ): Promise<ReviewReportDto[]> {
+    const reports = await this.prisma.reviewReport.findMany({
+      where: { status },
+      include: {
+        review: {
+          include: this.reviewsService.includeWithReview(moderator.id),
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    return reports.map((r) => this.transformReport(r, moderator.id));
+  }
+
+  /**
+   * Resolves a report together with all the other open reports of the same review,
+   * as the action taken applies to the review itself.
+   */
+  async resolveReport(
+    moderator: User,
+    reportId: ReviewReport['id'],
+    { action, note }: ResolveReviewReportDto,
+  ): Promise<ReviewReportDto> {
+    const report = await this.prisma.reviewReport.findUnique({
+      where: { id: reportId },
+      include: { review: true },
+    });
+
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+
+    if (report.status !== ReviewReportStatus.OPEN) {
+      throw new BadRequestException('Report is already resolved');
+    }
+
+    let status: ReviewReportStatus;
+    switch (action) {
+      case ReviewReportAction.DISMISS:
+        status = ReviewReportStatus.DISMISSED;
+        // The review becomes public again only if the reports hid it. Reviews pending for
+        // another reason, like the content filter, still wait for a moderator.
+        if (
+          report.review.state === ReviewState.PENDING &&
+          report.review.hiddenByReports
+        ) {
+          await this.reviewsService.moderateReview(
+            moderator,
+            report.reviewId,
+            ReviewState.APPROVED,
+            note,
+          );
+        }
+        break;
+      case ReviewReportAction.BLOCK_REVIEW:
+        status = ReviewReportStatus.REVIEW_BLOCKED;
+        if (report.review.state !== ReviewState.BLOCKED) {
+          await this.reviewsService.moderateReview(
+            moderator,
+            report.reviewId,
+            ReviewState.BLOCKED,
+            note ?? `Reported for ${report.reason.toLowerCase()}`,
+          );
+        }
+        break;
+      case ReviewReportAction.WARN_AUTHOR:
+        status = ReviewReportStatus.AUTHOR_WARNED;
+        if (report.review.postedById) {
+          await this.notificationsService.sendNotificationToUser(
+            report.review.postedById,
+            NotificationType.REVIEW_MODERATION,
+            `Your review was reported and checked by a moderator${note ? `: ${note}` : '.'} Please follow the community guidelines.`,
+            'Culero review warning',
+            { reviewId: report.reviewId, reason: report.reason },
+          );
+        }
+        break;
+    }
+
+    await this.prisma.reviewReport.updateMany({
+      where: {
+        reviewId: report.reviewId,
+        status: ReviewReportStatus.OPEN,
+      },
+      data: {
+        status,
+        resolvedById: moderator.id,
+        resolvedAt: new Date(),
+        resolutionNote: note,
+      },
+    });
+
+    const resolvedReport = await this.prisma.reviewReport.findUnique({
+      where: { id: reportId },
+      include: {
+        review: {
+          include: this.reviewsService.includeWithReview(moderator.id),
+        },
+      },
+    });
+
+    return this.transformReport(resolvedReport, moderator.id);
+  }
+}
@@ -0,0 +1,79 @@
+import { Body, Controller, Get, Param, Post } from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiGoneResponse,
+  ApiNotFoundResponse,
+  ApiTags,
+  ApiTooManyRequestsResponse,
+} from '@nestjs/swagger';
+import { User } from '@prisma/client';
+import { CurrentUser } from '../../src/decorators/current-user.decorator';
+import { Public } from '../../src/decorators/public.decorator';
+import { ReviewRequestsService } from './review-requests.service';
+import {
+  CreateReviewRequestDto,
+  ReviewInvitationDto,
+  ReviewRequestDto,
+} from './dto/review-request.dto';
+
+@Controller('reviews/requests')
+@ApiBearerAuth()
+@ApiTags('Review requests controller')
+export class ReviewRequestsController {
+  constructor(private readonly reviewRequestsService: ReviewRequestsService) {}
+
+  /**
+   * Ask someone for a review, by user id or by email. The request is sent by email
+   * and as a push notification, with a link to the review form.
+   */
+  @Post()
+  @ApiBadRequestResponse()
+  @ApiNotFoundResponse()
+  @ApiConflictResponse()
+  @ApiTooManyRequestsResponse({
+    description: 'Too many review requests sent in the last day',
+  })
+  async createReviewRequest(
+    @CurrentUser() user: User,
+    @Body() data: CreateReviewRequestDto,
+  ): Promise<ReviewRequestDto> {
+    return this.reviewRequestsService.createReviewRequest(user, data);
+  }
+
+  /**
+   * Get the review requests sent by the current user and their status.
+   */
+  @Get()
+  async getReviewRequests(
+    @CurrentUser() user: User,
+  ): Promise<ReviewRequestDto[]> {
+    return this.reviewRequestsService.getReviewRequests(user);
+  }
+
+  /**
+   * Open the invite link of a review request. Returns the user to review.
+   */
+  @Get('/:token')
+  @Public()
+  @ApiNotFoundResponse()
+  @ApiGoneResponse()
+  async openReviewRequest(
+    @Param('token') token: string,
+  ): Promise<ReviewInvitationDto> {
+    return this.reviewRequestsService.openReviewRequest(token);
+  }
+
+  /**
+   * Decline a review request.
+   */
+  @Post('/:token/decline')
+  @Public()
+  @ApiNotFoundResponse()
+  @ApiGoneResponse()
+  @ApiBadRequestResponse()
+  async declineReviewRequest(@Param('token') token: string): Promise<void> {
+    return this.reviewRequestsService.declineReviewRequest(token);
+  }
+}
@@ -0,0 +1,132 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ReviewRequestStatus, User } from '@prisma/client';
+import { ReviewRequestsService } from './review-requests.service';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { NotificationsService } from '../../src/notifications/notifications.service';
+import { MailService } from '../../src/mail/mail.service';
+import { REDIS_CLIENT } from '../../src/provider/redis.provider';
+
+describe('ReviewRequestsService', () => {
+  let service: ReviewRequestsService;
+  let prisma: {
+    user: { findUnique: jest.Mock };
+    review: { count: jest.Mock };
+    reviewRequest: {
+      findFirst: jest.Mock;
+      findMany: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+    };
+  };
+  let cache: { incr: jest.Mock; expire: jest.Mock };
+  let mailService: {
+    sendReviewRequest: jest.Mock;
+    sendReviewRequestReminder: jest.Mock;
+  };
+
+  const user = { id: '1', name: 'John', email: 'john@example.com' } as User;
+  const recipient = { id: '2', email: 'jane@example.com' } as User;
+
+  const request = (data = {}) => ({
+    id: 'request',
+    requestedById: user.id,
+    requestedBy: user,
+    recipientId: recipient.id,
+    recipient,
+    email: null,
+    message: null,
+    token: 'token',
+    status: ReviewRequestStatus.SENT,
+    remindersSent: 0,
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 60_000),
+    ...data,
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      user: { findUnique: jest.fn().mockResolvedValue(recipient) },
+      review: { count: jest.fn().mockResolvedValue(0) },
+      reviewRequest: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn(),
+        create: jest.fn(({ data }) => request(data)),
+        update: jest.fn(),
+      },
+    };
+    cache = { incr: jest.fn().mockResolvedValue(1), expire: jest.fn() };
+    mailService = {
+      sendReviewRequest: jest.fn(),
+      sendReviewRequestReminder: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewRequestsService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: NotificationsService,
+          useValue: { sendNotificationToUser: jest.fn() },
+        },
+        { provide: MailService, useValue: mailService },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+        { provide: REDIS_CLIENT, useValue: cache },
+      ],
+    }).compile();
+
+    service = module.get<ReviewRequestsService>(ReviewRequestsService);
+  });
+
+  it('should count the requests sent in a day', async () => {
+    await service.createReviewRequest(user, { userId: recipient.id });
+
+    expect(cache.incr).toHaveBeenCalledWith('review-request-sends-1');
+    expect(cache.expire).toHaveBeenCalledWith(
+      'review-request-sends-1',
+      24 * 60 * 60,
+    );
+    expect(mailService.sendReviewRequest).toHaveBeenCalled();
+  });
+
+  it('should not send more requests than allowed in a day', async () => {
+    cache.incr.mockResolvedValue(21);
+
+    const error = await service
+      .createReviewRequest(user, { userId: recipient.id })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(prisma.reviewRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('should not deliver a request to a user who already reviewed the sender', async () => {
+    prisma.review.count.mockResolvedValue(1);
+
+    const created = await service.createReviewRequest(user, {
+      userId: recipient.id,
+    });
+
+    expect(created.status).toBe(ReviewRequestStatus.SENT);
+    expect(prisma.reviewRequest.create.mock.calls[0][0].data).toMatchObject({
+      nextReminderAt: null,
+    });
+    expect(mailService.sendReviewRequest).not.toHaveBeenCalled();
+  });
+
+  it('should stop the reminders after the last one', async () => {
+    prisma.reviewRequest.findMany.mockResolvedValue([
+      request({ remindersSent: 1 }),
+    ]);
+
+    await service.sendReminders();
+
+    expect(mailService.sendReviewRequestReminder).toHaveBeenCalled();
+    expect(prisma.reviewRequest.update).toHaveBeenCalledWith({
+      where: { id: 'request' },
+      data: { remindersSent: { increment: 1 }, nextReminderAt: null },
+    });
+  });
+});
@@ -0,0 +1,375 @@
+import {
+  BadRequestException,
+  ConflictException,
+  GoneException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  NotificationType,
+  ReviewRequest,
+  ReviewRequestStatus,
+  User,
+} from '@prisma/client';
+import { randomBytes } from 'crypto';
+import Redis from 'ioredis';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { NotificationsService } from '../../src/notifications/notifications.service';
+import { MailService } from '../../src/mail/mail.service';
+import { REDIS_CLIENT } from '../../src/provider/redis.provider';
+import {
+  CreateReviewRequestDto,
+  ReviewInvitationDto,
+  ReviewRequestDto,
+} from './dto/review-request.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_SECONDS = DAY_MS / 1000;
+
+// requests that can still be answered by the recipient
+const PENDING_STATUSES: ReviewRequestStatus[] = [
+  ReviewRequestStatus.SENT,
+  ReviewRequestStatus.OPENED,
+];
+
+type ReviewRequestWithUsers = ReviewRequest & {
+  requestedBy: User;
+  recipient: User | null;
+};
+
+@Injectable()
+export class ReviewRequestsService {
+  private readonly log = new Logger(ReviewRequestsService.name);
+  private readonly inviteUrl: string;
+  private readonly expiryDays: number;
+  private readonly reminderIntervalDays: number;
+  private readonly maxReminders: number;
+  // every request emails someone who may not have an account, so their number is capped
+  private readonly maxRequestsPerDay: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly cache: Redis,
+  ) {
+    this.inviteUrl =
+      this.configService.get<string>('REVIEW_REQUEST_URL') ??
+      'https://culero.com/review-request';
+    this.expiryDays = Number(
+      this.configService.get<string>('REVIEW_REQUEST_EXPIRY_DAYS') ?? 14,
+    );
+    this.reminderIntervalDays = Number(
+      this.configService.get<string>('REVIEW_REQUEST_REMINDER_INTERVAL_DAYS') ??
+        3,
+    );
+    this.maxReminders = Number(
+      this.configService.get<string>('REVIEW_REQUEST_MAX_REMINDERS') ?? 2,
+    );
+    this.maxRequestsPerDay = Number(
+      this.configService.get<string>('REVIEW_REQUEST_MAX_PER_DAY') ?? 20,
+    );
+  }
+
+  private transformRequest(
+    request: ReviewRequest & { recipient: User | null },
+  ): ReviewRequestDto {
+    // requests sent to an email don't tell if it belongs to an account, and whose
+    return {
+      id: request.id,
+      recipient:
+        request.recipient && !request.email
+          ? {
+              id: request.recipient.id,
+              name: request.recipient.name,
+              profilePictureUrl: request.recipient.profilePictureUrl,
+              isEmailVerified: request.recipient.isEmailVerified,
+            }
+          : undefined,
+      email: request.email ?? undefined,
+      message: request.message ?? undefined,
+      status: request.status,
+      isExpired: this.isExpired(request),
+      createdAt: request.createdAt,
+      expiresAt: request.expiresAt,
+      openedAt: request.openedAt ?? undefined,
+      respondedAt: request.respondedAt ?? undefined,
+    };
+  }
+
+  // answered requests never expire
+  private isExpired(request: ReviewRequest) {
+    return (
+      PENDING_STATUSES.includes(request.status) &&
+      request.expiresAt.getTime() <= Date.now()
+    );
+  }
+
+  private getInviteLink(token: string) {
+    return `${this.inviteUrl}/${token}`;
+  }
+
+  // The reminder after the one sent at the given time, if there are reminders left
+  private getNextReminderAt(from: Date, remindersSent: number): Date | null {
+    if (remindersSent >= this.maxReminders) {
+      return null;
+    }
+
+    return new Date(from.getTime() + this.reminderIntervalDays * DAY_MS);
+  }
+
+  // Throw if the user already sent as many requests as allowed in the last day
+  private async checkCanSendRequest(userId: User['id']) {
+    const key = `review-request-sends-${userId}`;
+    const sends = await this.cache.incr(key);
+    if (sends === 1) {
+      await this.cache.expire(key, DAY_SECONDS);
+    }
+
+    if (sends > this.maxRequestsPerDay) {
+      throw new HttpException(
+        'Too many review requests sent, try again tomorrow',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  // Send the request by email and, if the recipient has an account, as a push notification
+  private async deliverRequest(
+    request: ReviewRequestWithUsers,
+    isReminder: boolean,
+  ) {
+    const requesterName =
+      request.requestedBy.name ?? request.requestedBy.email ?? 'A Culero user';
+    const link = this.getInviteLink(request.token);
+    const email = request.recipient?.email ?? request.email;
+
+    if (email) {
+      if (isReminder) {
+        await this.mailService.sendReviewRequestReminder(
+          email,
+          requesterName,
+          link,
+        );
+      } else {
+        await this.mailService.sendReviewRequest(
+          email,
+          requesterName,
+          link,
+          request.message ?? undefined,
+        );
+      }
+    }
+
+    if (request.recipient) {
+      await this.notificationsService.sendNotificationToUser(
+        request.recipient.id,
+        NotificationType.REVIEW_REQUEST,
+        isReminder
+          ? `${requesterName} is still waiting for your review`
+          : `${requesterName} asked you for a review`,
+        'Culero review request',
+        {
+          reviewRequestId: request.id,
+          requestedById: request.requestedById,
+          token: request.token,
+        },
+      );
+    }
+  }
+
+  async createReviewRequest(
+    user: User,
+    { userId, email, message }: CreateReviewRequestDto,
+  ): Promise<ReviewRequestDto> {
+    if (!userId === !email) {
+      throw new BadRequestException('Either userId or email is required');
+    }
+
+    // People invited by email may already have an account
+    const recipient = await this.prisma.user.findUnique({
+      where: userId ? { id: userId } : { email },
+    });
+
+    if (userId && !recipient) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (recipient?.id === user.id || email === user.email) {
+      throw new BadRequestException('You cannot ask yourself for a review');
+    }
+
+    // Only the requests sent the same way are compared, so asking by email doesn't tell
+    // if the email belongs to a user asked by id
+    const pendingRequest = await this.prisma.reviewRequest.findFirst({
+      where: {
+        requestedById: user.id,
+        status: { in: PENDING_STATUSES },
+        expiresAt: { gt: new Date() },
+        ...(email ? { email } : { recipientId: recipient.id, email: null }),
+      },
+    });
+
+    if (pendingRequest) {
+      throw new ConflictException(
+        'You have already asked this person for a review',
+      );
+    }
+
+    await this.checkCanSendRequest(user.id);
+
+    // Reviews can be anonymous, so the request is accepted as usual when the recipient
+    // already reviewed the user. It is just never delivered.
+    const hasReviewed =
+      recipient &&
+      (await this.prisma.review.count({
+        where: { postedById: recipient.id, postedToId: user.id },
+      })) > 0;
+
+    const now = new Date();
+    const request = await this.prisma.reviewRequest.create({
+      data: {
+        requestedById: user.id,
+        recipientId: recipient?.id,
+        email,
+        message,
+        token: randomBytes(32).toString('base64url'),
+        expiresAt: new Date(now.getTime() + this.expiryDays * DAY_MS),
+        nextReminderAt: hasReviewed ? null : this.getNextReminderAt(now, 0),
+      },
+      include: {
+        requestedBy: true,
+        recipient: true,
+      },
+    });
+
+    if (!hasReviewed) {
+      await this.deliverRequest(request, false);
+    }
+
+    return this.transformRequest(request);
+  }
+
+  /**
+   * Get the review requests sent by the user, newest first.
+   */
+  async getReviewRequests(user: User): Promise<ReviewRequestDto[]> {
+    const requests = await this.prisma.reviewRequest.findMany({
+      where: { requestedById: user.id },
+      include: { recipient: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return requests.map((r) => this.transformRequest(r));
+  }
+
+  private async getRequestByToken(token: string) {
+    const request = await this.prisma.reviewRequest.findUnique({
+      where: { token },
+      include: { requestedBy: true },
+    });
+
+    if (!request) {
+      throw new NotFoundException('Review request not found');
+    }
+
+    if (this.isExpired(request)) {
+      throw new GoneException('Review request has expired');
+    }
+
+    return request;
+  }
+
+  /**
+   * Get the request the invite link points to, and mark it as opened.
+   */
+  async openReviewRequest(token: string): Promise<ReviewInvitationDto> {
+    let request = await this.getRequestByToken(token);
+
+    if (request.status === ReviewRequestStatus.SENT) {
+      request = await this.prisma.reviewRequest.update({
+        where: { id: request.id },
+        data: {
+          status: ReviewRequestStatus.OPENED,
+          openedAt: new Date(),
+        },
+        include: { requestedBy: true },
+      });
+    }
+
+    return {
+      id: request.id,
+      requestedBy: {
+        id: request.requestedBy.id,
+        name: request.requestedBy.name,
+        profilePictureUrl: request.requestedBy.profilePictureUrl,
+        isEmailVerified: request.requestedBy.isEmailVerified,
+      },
+      message: request.message ?? undefined,
+      status: request.status,
+      expiresAt: request.expiresAt,
+    };
+  }
+
+  async declineReviewRequest(token: string): Promise<void> {
+    const request = await this.getRequestByToken(token);
+
+    if (!PENDING_STATUSES.includes(request.status)) {
+      throw new BadRequestException('Review request was already answered');
+    }
+
+    await this.prisma.reviewRequest.update({
+      where: { id: request.id },
+      data: {
+        status: ReviewRequestStatus.DECLINED,
+        respondedAt: new Date(),
+        nextReminderAt: null,
+      },
+    });
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async sendReminders() {
+    const now = new Date();
+    const requests = await this.prisma.reviewRequest.findMany({
+      where: {
+        status: { in: PENDING_STATUSES },
+        nextReminderAt: { lte: now },
+        expiresAt: { gt: now },
+      },
+      include: {
+        requestedBy: true,
+        recipient: true,
+      },
+    });
+
+    for (const request of requests) {
+      try {
+        await this.deliverRequest(request, true);
+      } catch (error) {
+        this.log.error(
+          `Error sending reminder for review request ${request.id}: ${error.message}`,
+        );
+      }
+
+      // The reminder is not retried if it failed, the recipient already got the request
+      await this.prisma.reviewRequest.update({
+        where: { id: request.id },
+        data: {
+          remindersSent: { increment: 1 },
+          nextReminderAt: this.getNextReminderAt(
+            now,
+            request.remindersSent + 1,
+          ),
+        },
+      });
+    }
+  }
+}
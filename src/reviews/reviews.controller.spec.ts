@@ -4,6 +4,13 @@ import { ReviewsService } from './reviews.service';
 import { PrismaService } from '../../src/prisma/prisma.service';
 import { REDIS_CLIENT } from '../../src/provider/redis.provider';
 import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReviewModerationPolicy } from './review-moderation.policy';
+import { ReviewReportsService } from './review-reports.service';
+import { ConfigService } from '@nestjs/config';
+import { ReputationService } from './reputation.service';
+import { RatingDimensionsService } from './rating-dimensions.service';
+import { ReviewContentFilter } from './content-filter/review-content-filter';
+import { ReviewExportService } from './review-export.service';
 
 describe('ReviewsController', () => {
   let controller: ReviewsController;
@@ -15,6 +22,13 @@ describe('ReviewsController', () => {
         ReviewsService,
         PrismaService,
         NotificationsService,
+        ReviewModerationPolicy,
+        ReviewReportsService,
+        ConfigService,
+        ReputationService,
+        RatingDimensionsService,
+        ReviewContentFilter,
+        ReviewExportService,
         {
           provide: REDIS_CLIENT,
           useValue: {},
@@ -6,13 +6,18 @@ import {
   Param,
   Post,
   Put,
+  Query,
+  StreamableFile,
 } from '@nestjs/common';
 import { ReviewsService } from './reviews.service';
 import {
+  ApiBadRequestResponse,
   ApiBearerAuth,
+  ApiConflictResponse,
   ApiForbiddenResponse,
   ApiNotFoundResponse,
   ApiOperation,
+  ApiProduces,
   ApiTags,
 } from '@nestjs/swagger';
 import { ReviewDto } from './dto/reviews.dto';
@@ -20,13 +25,37 @@ import { CurrentUser } from '../../src/decorators/current-user.decorator';
 import { User } from '@prisma/client';
 import { CreateReviewBodyDTO } from './dto/create-review.dto';
 import { RatingDto } from './dto/rating.dto';
+import { RatingDistributionDto } from './dto/rating-distribution.dto';
+import {
+  RatingTrendPointDto,
+  RatingTrendQueryDto,
+} from './dto/rating-trend.dto';
 import { UpdateReviewDto } from './dto/update-review.dto';
+import { ReviewResponseBodyDto } from './dto/review-response.dto';
+import { ReportReviewDto, ReviewReportDto } from './dto/review-report.dto';
+import { ReviewReportsService } from './review-reports.service';
+import { ReviewRevisionDto } from './dto/review-revision.dto';
+import { ReviewsQueryDto } from './dto/reviews-query.dto';
+import { PaginatedDto } from '../../src/common/dto/pagination.dto';
+import { EndorsedSkillDto, SkillsLimitQueryDto } from './dto/skill.dto';
+import {
+  ReviewSearchResultDto,
+  SearchReviewsQueryDto,
+} from './dto/search-reviews.dto';
+import { ExportReviewsQueryDto } from './dto/export-reviews.dto';
+import { ReviewExportService } from './review-export.service';
+import { FavoriteReviewsQueryDto } from './dto/review-collection.dto';
+import { queryPipe } from '../../src/common/pipes/query.pipe';
 
 @Controller('reviews')
 @ApiBearerAuth()
 @ApiTags('Reviews controller')
 export class ReviewsController {
-  constructor(private readonly reviewsService: ReviewsService) {}
+  constructor(
+    private readonly reviewsService: ReviewsService,
+    private readonly reviewReportsService: ReviewReportsService,
+    private readonly reviewExportService: ReviewExportService,
+  ) {}
 
   /**
    * Get the review of the current user for the specified user
@@ -44,8 +73,11 @@ export class ReviewsController {
    */
 
   @Get('/latest')
-  async getLatestReviews(@CurrentUser() user: User): Promise<ReviewDto[]> {
-    return this.reviewsService.getLatestReviews(user.id);
+  async getLatestReviews(
+    @CurrentUser() user: User,
+    @Query(queryPipe) query: ReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    return this.reviewsService.getLatestReviews(user.id, query);
   }
 
   /**
@@ -53,8 +85,50 @@ export class ReviewsController {
    */
   @Get('/posted')
   @ApiNotFoundResponse()
-  async getReviewsPostedBy(@CurrentUser() user: User): Promise<ReviewDto[]> {
-    return this.reviewsService.getReviewPostedBy(user.id);
+  async getReviewsPostedBy(
+    @CurrentUser() user: User,
+    @Query(queryPipe) query: ReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    return this.reviewsService.getReviewPostedBy(user.id, query);
+  }
+
+  /**
+   * Get the reviews liked by the current user, most recently liked first. Pass a
+   * collection to only get the favorites filed in it.
+   */
+  @Get('/favorites')
+  async getFavoriteReviews(
+    @CurrentUser() user: User,
+    @Query(queryPipe) query: FavoriteReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    return this.reviewsService.getFavoriteReviews(user.id, user.id, query);
+  }
+
+  /**
+   * Search the comments of the reviews, most relevant first. Only approved reviews of users
+   * who didn't hide their reviews are found, besides the ones of the current user.
+   */
+  @Get('/search')
+  @ApiBadRequestResponse()
+  async searchReviews(
+    @CurrentUser() user: User,
+    @Query(queryPipe) query: SearchReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewSearchResultDto>> {
+    return this.reviewsService.searchReviews(user.id, query);
+  }
+
+  /**
+   * Download the reviews received or posted by the current user as CSV, JSON or a PDF report.
+   * Authors of anonymous reviews are never included.
+   */
+  @Get('/export')
+  @ApiProduces('text/csv', 'application/json', 'application/pdf')
+  @ApiBadRequestResponse()
+  async exportReviews(
+    @CurrentUser() user: User,
+    @Query(queryPipe) query: ExportReviewsQueryDto,
+  ): Promise<StreamableFile> {
+    return this.reviewExportService.exportReviews(user, query);
   }
 
   /**
@@ -64,15 +138,20 @@ export class ReviewsController {
   async getReviews(
     @CurrentUser() user: User,
     @Param('userId') postedToId: string,
-  ): Promise<Array<ReviewDto>> {
-    return this.reviewsService.getUserReviews(user, postedToId);
+    @Query(queryPipe) query: ReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    return this.reviewsService.getUserReviews(user, postedToId, query);
   }
 
   /**
    *
-   * Create a review
+   * Create a review. A user can review another user only once, the existing review
+   * has to be updated with `PUT /reviews/:reviewId` instead.
    */
   @Post()
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  @ApiConflictResponse()
   async createReview(
     @CurrentUser() user: User,
     @Body() { postedToId, review }: CreateReviewBodyDTO,
@@ -85,8 +164,55 @@ export class ReviewsController {
     summary: 'Get user average rating',
     description: 'Get average rating of another user',
   })
-  async getUserRatings(@Param('userId') userId: string): Promise<RatingDto> {
-    return this.reviewsService.getAvgUserRatings(userId);
+  @ApiNotFoundResponse()
+  async getUserRatings(
+    @CurrentUser() user: User,
+    @Param('userId') userId: string,
+  ): Promise<RatingDto> {
+    return this.reviewsService.getAvgUserRatings(user.id, userId);
+  }
+
+  @Get('stats/:userId/distribution')
+  @ApiOperation({
+    summary: 'Get user rating distribution',
+    description:
+      'Get the number of 1 to 5 star ratings per category, the number of reviews and comments and the overall mean rating of a user',
+  })
+  @ApiNotFoundResponse()
+  async getRatingDistribution(
+    @CurrentUser() user: User,
+    @Param('userId') userId: string,
+  ): Promise<RatingDistributionDto> {
+    return this.reviewsService.getRatingDistribution(user.id, userId);
+  }
+
+  @Get('stats/:userId/trend')
+  @ApiOperation({
+    summary: 'Get user rating trend',
+    description:
+      'Get the average ratings and number of reviews of a user per week or month',
+  })
+  @ApiNotFoundResponse()
+  async getRatingTrend(
+    @CurrentUser() user: User,
+    @Param('userId') userId: string,
+    @Query(queryPipe) query: RatingTrendQueryDto,
+  ): Promise<RatingTrendPointDto[]> {
+    return this.reviewsService.getRatingTrend(user.id, userId, query);
+  }
+
+  @Get('stats/:userId/skills')
+  @ApiOperation({
+    summary: 'Get user top skills',
+    description:
+      'Get the skills a user is tagged with in the most approved reviews',
+  })
+  async getTopSkills(
+    @CurrentUser() user: User,
+    @Param('userId') userId: string,
+    @Query(queryPipe) { limit }: SkillsLimitQueryDto,
+  ): Promise<EndorsedSkillDto[]> {
+    return this.reviewsService.getTopSkills(user.id, userId, limit);
   }
 
   /**
@@ -111,6 +237,84 @@ export class ReviewsController {
     return this.reviewsService.unlikeReview(user, reviewId);
   }
 
+  /**
+   * Get all the versions of a review. Only the author, the reviewed user and moderators can do this.
+   */
+  @Get('/:reviewId/history')
+  @ApiNotFoundResponse()
+  @ApiForbiddenResponse()
+  async getReviewHistory(
+    @CurrentUser() user: User,
+    @Param('reviewId') reviewId: string,
+  ): Promise<ReviewRevisionDto[]> {
+    return this.reviewsService.getReviewHistory(user, reviewId);
+  }
+
+  /**
+   * Report an abusive review. A user can report a review only once.
+   */
+  @Post('/:reviewId/report')
+  @ApiNotFoundResponse()
+  @ApiBadRequestResponse()
+  @ApiConflictResponse()
+  async reportReview(
+    @CurrentUser() user: User,
+    @Param('reviewId') reviewId: string,
+    @Body() data: ReportReviewDto,
+  ): Promise<ReviewReportDto> {
+    return this.reviewReportsService.reportReview(user, reviewId, data);
+  }
+
+  /**
+   * Publicly respond to a review. Only the reviewed user can do this.
+   */
+  @Post('/:reviewId/response')
+  @ApiNotFoundResponse()
+  @ApiForbiddenResponse()
+  @ApiBadRequestResponse()
+  @ApiConflictResponse()
+  async createReviewResponse(
+    @CurrentUser() user: User,
+    @Param('reviewId') reviewId: string,
+    @Body() data: ReviewResponseBodyDto,
+  ): Promise<ReviewDto> {
+    await this.reviewsService.canUserRespondToReview(user.id, reviewId, true);
+
+    return this.reviewsService.createReviewResponse(user, reviewId, data);
+  }
+
+  /**
+   * Edit the response to a review. Only the reviewed user can do this.
+   */
+  @Put('/:reviewId/response')
+  @ApiNotFoundResponse()
+  @ApiForbiddenResponse()
+  @ApiBadRequestResponse()
+  async updateReviewResponse(
+    @CurrentUser() user: User,
+    @Param('reviewId') reviewId: string,
+    @Body() data: ReviewResponseBodyDto,
+  ): Promise<ReviewDto> {
+    await this.reviewsService.canUserRespondToReview(user.id, reviewId);
+
+    return this.reviewsService.updateReviewResponse(user, reviewId, data);
+  }
+
+  /**
+   * Delete the response to a review. Only the reviewed user can do this.
+   */
+  @Delete('/:reviewId/response')
+  @ApiNotFoundResponse()
+  @ApiForbiddenResponse()
+  async deleteReviewResponse(
+    @CurrentUser() user: User,
+    @Param('reviewId') reviewId: string,
+  ): Promise<ReviewDto> {
+    await this.reviewsService.canUserRespondToReview(user.id, reviewId);
+
+    return this.reviewsService.deleteReviewResponse(user, reviewId);
+  }
+
   /**
    *
    * Delete a review. Only the user that posted the review can do this.
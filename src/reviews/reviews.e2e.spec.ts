@@ -5,7 +5,13 @@ import {
 import { Test } from '@nestjs/testing';
 import { AppModule } from '../app/app.module';
 import { PrismaService } from '../prisma/prisma.service';
-import { AuthType } from '@prisma/client';
+import {
+  AuthType,
+  NotificationType,
+  ReviewRequestStatus,
+  ReviewState,
+  UserRole,
+} from '@prisma/client';
 import { ValidationPipe } from '@nestjs/common';
 import { MailService } from '../mail/mail.service';
 import { mockDeep } from 'jest-mock-extended';
@@ -13,10 +19,28 @@ import { MailModule } from '../mail/mail.module';
 import { UserModule } from '../user/user.module';
 import { ReviewsModule } from './reviews.module';
 import { NotificationsModule } from '../../src/notifications/notifications.module';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../provider/redis.provider';
+
+// nested prisma write rating a review in the professionalism, reliability and communication dimensions
+const ratings = (
+  professionalism: number,
+  reliability: number,
+  communication: number,
+) => ({
+  scores: {
+    create: [
+      { dimensionId: 'professionalism', rating: professionalism },
+      { dimensionId: 'reliability', rating: reliability },
+      { dimensionId: 'communication', rating: communication },
+    ],
+  },
+});
 
 describe('Reviws Controller Tests', () => {
   let app: NestFastifyApplication;
   let prisma: PrismaService;
+  let redis: Redis;
 
   beforeAll(async () => {
     const moduleRef = await Test.createTestingModule({
@@ -36,6 +60,7 @@ describe('Reviws Controller Tests', () => {
     );
     app.useGlobalPipes(new ValidationPipe());
     prisma = moduleRef.get(PrismaService);
+    redis = moduleRef.get(REDIS_CLIENT);
 
     await app.init();
     await app.getHttpAdapter().getInstance().ready();
@@ -44,6 +69,14 @@ describe('Reviws Controller Tests', () => {
   beforeEach(async () => {
     await prisma.userSettings.deleteMany();
     await prisma.user.deleteMany();
+    await prisma.skill.deleteMany();
+    // only the dimensions created by the migration are kept
+    await prisma.ratingDimension.deleteMany({
+      where: {
+        id: { notIn: ['professionalism', 'reliability', 'communication'] },
+      },
+    });
+    await prisma.ratingDimension.updateMany({ data: { active: true } });
 
     await prisma.user.create({
       data: {
@@ -58,45 +91,61 @@ describe('Reviws Controller Tests', () => {
 
   describe('review tests', () => {
     beforeEach(async () => {
-      await prisma.user.create({
-        data: {
-          id: '2',
-          email: 'janedoe@example.com',
-          name: 'Jane Doe',
-          isEmailVerified: true,
-          authType: AuthType.EMAIL,
-        },
-      });
-
-      await prisma.review.createMany({
+      await prisma.user.createMany({
         data: [
           {
-            postedToId: '2',
-            postedById: '1',
-            professionalism: 5,
-            reliability: 5,
-            communication: 5,
-            comment: 'Something',
+            id: '2',
+            email: 'janedoe@example.com',
+            name: 'Jane Doe',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
           },
           {
-            postedToId: '2',
-            postedById: '1',
-            professionalism: 5,
-            reliability: 5,
-            communication: 5,
-            comment: 'lala',
+            id: '4',
+            email: 'alice@example.com',
+            name: 'Alice',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+          {
+            id: '5',
+            email: 'bob@example.com',
+            name: 'Bob',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
           },
         ],
       });
 
+      for (const data of [
+        {
+          postedToId: '2',
+          postedById: '4',
+          ...ratings(5, 5, 5),
+          overallRating: 5,
+          comment: 'Something',
+          state: ReviewState.APPROVED,
+        },
+        {
+          postedToId: '2',
+          postedById: '5',
+          ...ratings(5, 5, 5),
+          overallRating: 5,
+          comment: 'lala',
+          state: ReviewState.APPROVED,
+        },
+      ]) {
+        await prisma.review.create({ data });
+      }
+
       await prisma.review.create({
         data: {
           postedToId: '1',
           postedById: '2',
-          professionalism: 5,
-          reliability: 5,
-          communication: 5,
+          ...ratings(5, 5, 5),
+          overallRating: 5,
           comment: 'lala',
+          state: ReviewState.APPROVED,
         },
       });
     });
@@ -283,13 +332,13 @@ describe('Reviws Controller Tests', () => {
         where: {
           id: response.json().id,
         },
+        include: { scores: true },
       });
       expect(rating).toBeDefined();
       expect(rating.postedToId).toBe('2');
       expect(rating.postedById).toBe('1');
-      expect(rating.professionalism).toBe(5);
-      expect(rating.reliability).toBe(5);
-      expect(rating.communication).toBe(5);
+      expect(rating.scores).toHaveLength(3);
+      expect(rating.scores.every((s) => s.rating === 5)).toBe(true);
     });
 
     it('should be able to rate another user - anon', async () => {
@@ -323,16 +372,56 @@ describe('Reviws Controller Tests', () => {
         where: {
           id: response.json().id,
         },
+        include: { scores: true },
       });
       expect(rating).toBeDefined();
       expect(rating.postedToId).toBe('2');
       expect(rating.postedById).toBe('1');
-      expect(rating.professionalism).toBe(5);
-      expect(rating.reliability).toBe(5);
-      expect(rating.communication).toBe(5);
+      expect(rating.scores).toHaveLength(3);
+      expect(rating.scores.every((s) => s.rating === 5)).toBe(true);
       expect(rating.anonymous).toBe(true);
     });
 
+    it('should not be able to review the same user twice', async () => {
+      const payload = {
+        review: {
+          professionalism: 5,
+          reliability: 5,
+          communication: 5,
+        },
+        postedToId: '2',
+      };
+
+      const first = await app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload,
+      });
+      expect(first.statusCode).toBe(201);
+
+      const second = await app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload,
+      });
+      expect(second.statusCode).toBe(409);
+
+      const review = await app.inject({
+        method: 'GET',
+        url: '/reviews/my-review/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(review.json().id).toBe(first.json().id);
+    });
+
     it('should be able to get the ratings of another user', async () => {
       const response = await app.inject({
         method: 'GET',
@@ -344,13 +433,135 @@ describe('Reviws Controller Tests', () => {
 
       expect(response.statusCode).toBe(200);
 
-      const rating = response.json()[0];
+      const rating = response
+        .json()
+        .items.find((r) => r.comment === 'Something');
       expect(rating.professionalism).toBe(5);
       expect(rating.reliability).toBe(5);
       expect(rating.communication).toBe(5);
       expect(rating.comment).toBe('Something');
     });
 
+    it('should be able to get the rating distribution of another user', async () => {
+      // posting a review refreshes the cached stats
+      await app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          review: {
+            professionalism: 2,
+            reliability: 3,
+            communication: 4,
+          },
+          postedToId: '2',
+        },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/stats/2/distribution',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().reviewsCount).toBe(3);
+      expect(response.json().commentsCount).toBe(2);
+      expect(response.json().professionalism).toStrictEqual({
+        1: 0,
+        2: 1,
+        3: 0,
+        4: 0,
+        5: 2,
+      });
+      expect(response.json().communication['4']).toBe(1);
+      expect(response.json().overallRating).toBe(4);
+    });
+
+    it('should be able to get the rating trend of another user', async () => {
+      // a user can review another one only once
+      await prisma.user.createMany({
+        data: ['6', '7', '8', '9'].map((id) => ({
+          id,
+          email: `reviewer${id}@example.com`,
+          authType: AuthType.EMAIL,
+        })),
+      });
+
+      for (const data of [
+        {
+          postedToId: '2',
+          postedById: '6',
+          ...ratings(2, 4, 3),
+          overallRating: 3,
+          state: ReviewState.APPROVED,
+          createdAt: new Date('2024-01-10T12:00:00.000Z'),
+        },
+        {
+          postedToId: '2',
+          postedById: '7',
+          ...ratings(4, 4, 5),
+          overallRating: 13 / 3,
+          state: ReviewState.APPROVED,
+          createdAt: new Date('2024-01-20T12:00:00.000Z'),
+        },
+        {
+          postedToId: '2',
+          postedById: '8',
+          ...ratings(1, 1, 1),
+          overallRating: 1,
+          state: ReviewState.APPROVED,
+          createdAt: new Date('2024-02-15T12:00:00.000Z'),
+        },
+        {
+          postedToId: '2',
+          postedById: '9',
+          ...ratings(5, 5, 5),
+          overallRating: 5,
+          state: ReviewState.BLOCKED,
+          createdAt: new Date('2024-02-16T12:00:00.000Z'),
+        },
+      ]) {
+        await prisma.review.create({ data });
+      }
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/stats/2/trend?bucket=month&from=2024-01-01T00:00:00.000Z&to=2024-03-01T00:00:00.000Z',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const trend = response.json();
+      expect(trend).toHaveLength(2);
+      expect(new Date(trend[0].bucket).getUTCMonth()).toBe(0);
+      expect(trend[0].count).toBe(2);
+      expect(trend[0].professionalism).toBe(3);
+      expect(trend[0].reliability).toBe(4);
+      expect(trend[0].communication).toBe(4);
+      expect(new Date(trend[1].bucket).getUTCMonth()).toBe(1);
+      expect(trend[1].count).toBe(1);
+      expect(trend[1].professionalism).toBe(1);
+    });
+
+    it('should not accept an invalid trend bucket', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/stats/2/trend?bucket=day',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
     it('should be able to get average ratings of another user', async () => {
       const response = await app.inject({
         method: 'GET',
@@ -365,7 +576,2509 @@ describe('Reviws Controller Tests', () => {
       expect(response.json().reliability).toBe(5);
       expect(response.json().communication).toBe(5);
     });
+
+    it('should include the reputation with the average ratings', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/avg-rating/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { reputation } = response.json();
+      expect(reputation.reviewsCount).toBe(2);
+      expect(reputation.confidence).toBeGreaterThan(0);
+      expect(reputation.confidence).toBeLessThan(1);
+      expect(reputation.overall).toBeLessThanOrEqual(5);
+    });
+
+    it('should have more confidence in the reputation with more reviews', async () => {
+      const before = await app.inject({
+        method: 'GET',
+        url: '/reviews/avg-rating/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      await app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          review: {
+            professionalism: 5,
+            reliability: 5,
+            communication: 5,
+          },
+          postedToId: '2',
+        },
+      });
+
+      const after = await app.inject({
+        method: 'GET',
+        url: '/reviews/avg-rating/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(after.json().reputation.reviewsCount).toBe(3);
+      expect(after.json().reputation.confidence).toBeGreaterThan(
+        before.json().reputation.confidence,
+      );
+    });
   });
+
+  describe('moderation tests', () => {
+    let pendingReviewId: string;
+
+    beforeEach(async () => {
+      await prisma.user.createMany({
+        data: [
+          {
+            id: '2',
+            email: 'janedoe@example.com',
+            name: 'Jane Doe',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+          {
+            id: '3',
+            email: 'moderator@example.com',
+            name: 'Moderator',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+            role: UserRole.MODERATOR,
+          },
+        ],
+      });
+
+      await prisma.review.create({
+        data: {
+          postedToId: '1',
+          postedById: '3',
+          ...ratings(5, 5, 5),
+          state: ReviewState.APPROVED,
+        },
+      });
+
+      const pendingReview = await prisma.review.create({
+        data: {
+          postedToId: '1',
+          postedById: '2',
+          ...ratings(1, 1, 1),
+          comment: 'Needs a moderator',
+          state: ReviewState.PENDING,
+        },
+      });
+      pendingReviewId = pendingReview.id;
+    });
+
+    it('should not allow regular users to see the moderation queue', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/moderation',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should list the pending reviews for moderators', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/moderation',
+        headers: {
+          'x-e2e-user-email': 'moderator@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toHaveLength(1);
+      expect(response.json()[0].id).toBe(pendingReviewId);
+      expect(response.json()[0].state).toBe(ReviewState.PENDING);
+    });
+
+    it('should not show pending reviews to the reviewed user', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/1',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().items).toHaveLength(1);
+      expect(response.json().items[0].state).toBe(ReviewState.APPROVED);
+    });
+
+    it('should be able to approve a pending review', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/moderation/${pendingReviewId}/approve`,
+        headers: {
+          'x-e2e-user-email': 'moderator@example.com',
+        },
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().state).toBe(ReviewState.APPROVED);
+
+      const review = await prisma.review.findUnique({
+        where: { id: pendingReviewId },
+      });
+      expect(review.state).toBe(ReviewState.APPROVED);
+      expect(review.moderatedById).toBe('3');
+      expect(review.moderatedAt).not.toBeNull();
+
+      const notifications = await prisma.notification.findMany({
+        where: { userId: '2' },
+      });
+      expect(notifications).toHaveLength(1);
+
+      const avgRating = await app.inject({
+        method: 'GET',
+        url: '/reviews/avg-rating/1',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(avgRating.json().professionalism).toBe(3);
+    });
+
+    it('should require a reason to block a review', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/moderation/${pendingReviewId}/block`,
+        headers: {
+          'x-e2e-user-email': 'moderator@example.com',
+        },
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should be able to block a pending review with a reason', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/moderation/${pendingReviewId}/block`,
+        headers: {
+          'x-e2e-user-email': 'moderator@example.com',
+        },
+        payload: {
+          reason: 'Offensive language',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().state).toBe(ReviewState.BLOCKED);
+
+      const ownReviews = await app.inject({
+        method: 'GET',
+        url: '/reviews/posted',
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+      });
+      const blockedReview = ownReviews
+        .json()
+        .items.find((r) => r.id === pendingReviewId);
+      expect(blockedReview.state).toBe(ReviewState.BLOCKED);
+      expect(blockedReview.moderationReason).toBe('Offensive language');
+
+      const avgRating = await app.inject({
+        method: 'GET',
+        url: '/reviews/avg-rating/1',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(avgRating.json().professionalism).toBe(5);
+    });
+  });
+
+  describe('review response tests', () => {
+    let reviewId: string;
+
+    beforeEach(async () => {
+      await prisma.user.create({
+        data: {
+          id: '2',
+          email: 'janedoe@example.com',
+          name: 'Jane Doe',
+          isEmailVerified: true,
+          authType: AuthType.EMAIL,
+        },
+      });
+
+      const review = await prisma.review.create({
+        data: {
+          postedToId: '1',
+          postedById: '2',
+          ...ratings(4, 4, 4),
+          comment: 'Good job',
+          state: ReviewState.APPROVED,
+        },
+      });
+      reviewId = review.id;
+    });
+
+    it('should allow the reviewed user to respond to a review', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/response`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          comment: 'Thank you!',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().response.comment).toBe('Thank you!');
+
+      const notifications = await prisma.notification.findMany({
+        where: { userId: '2' },
+      });
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].type).toBe('REVIEW_RESPONSE');
+    });
+
+    it('should not allow the author to respond to their own review', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/response`,
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+        payload: {
+          comment: 'Thank you!',
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should not allow responding twice to a review', async () => {
+      await prisma.reviewResponse.create({
+        data: { reviewId, comment: 'Thank you!' },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/response`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          comment: 'Thanks again!',
+        },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should be able to edit and delete a response', async () => {
+      await prisma.reviewResponse.create({
+        data: { reviewId, comment: 'Thank you!' },
+      });
+
+      const updated = await app.inject({
+        method: 'PUT',
+        url: `/reviews/${reviewId}/response`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          comment: 'Thank you so much!',
+        },
+      });
+
+      expect(updated.statusCode).toBe(200);
+      expect(updated.json().response.comment).toBe('Thank you so much!');
+
+      const deleted = await app.inject({
+        method: 'DELETE',
+        url: `/reviews/${reviewId}/response`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(deleted.statusCode).toBe(200);
+      expect(deleted.json().response).toBeUndefined();
+    });
+
+    it('should only respond to approved reviews', async () => {
+      await prisma.review.update({
+        where: { id: reviewId },
+        data: { state: ReviewState.PENDING },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/response`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          comment: 'Thank you!',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should be able to delete the response of a review back in moderation', async () => {
+      await prisma.reviewResponse.create({
+        data: { reviewId, comment: 'Thank you!' },
+      });
+      await prisma.review.update({
+        where: { id: reviewId },
+        data: { state: ReviewState.PENDING },
+      });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/reviews/${reviewId}/response`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(
+        await prisma.reviewResponse.findUnique({ where: { reviewId } }),
+      ).toBeNull();
+    });
+  });
+
+  describe('report tests', () => {
+    let reviewId: string;
+
+    beforeEach(async () => {
+      await prisma.user.createMany({
+        data: [
+          {
+            id: '2',
+            email: 'janedoe@example.com',
+            name: 'Jane Doe',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+          {
+            id: '3',
+            email: 'moderator@example.com',
+            name: 'Moderator',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+            role: UserRole.MODERATOR,
+          },
+          {
+            id: '4',
+            email: 'alice@example.com',
+            name: 'Alice',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+        ],
+      });
+
+      const review = await prisma.review.create({
+        data: {
+          postedToId: '1',
+          postedById: '2',
+          ...ratings(1, 1, 1),
+          comment: 'Something rude',
+          state: ReviewState.APPROVED,
+        },
+      });
+      reviewId = review.id;
+    });
+
+    it('should be able to report a review', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/report`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          reason: 'OFFENSIVE',
+          details: 'Personal attack',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().status).toBe('OPEN');
+      expect(response.json().reason).toBe('OFFENSIVE');
+    });
+
+    it('should not be able to report the same review twice', async () => {
+      await prisma.reviewReport.create({
+        data: { reviewId, reportedById: '1', reason: 'SPAM' },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/report`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          reason: 'OFFENSIVE',
+        },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should not be able to report own review', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/report`,
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+        payload: {
+          reason: 'OFFENSIVE',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should validate the report reason', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/report`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          reason: 'NOT_A_REASON',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should send the review to moderation after enough reports', async () => {
+      await prisma.reviewReport.createMany({
+        data: [
+          { reviewId, reportedById: '3', reason: 'SPAM' },
+          { reviewId, reportedById: '4', reason: 'SPAM' },
+        ],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/report`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          reason: 'OFFENSIVE',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+
+      const review = await prisma.review.findUnique({
+        where: { id: reviewId },
+      });
+      expect(review.state).toBe(ReviewState.PENDING);
+    });
+
+    it('should keep a reported review pending when it is edited', async () => {
+      await prisma.reviewReport.createMany({
+        data: [
+          { reviewId, reportedById: '3', reason: 'SPAM' },
+          { reviewId, reportedById: '4', reason: 'SPAM' },
+        ],
+      });
+
+      await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/report`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          reason: 'OFFENSIVE',
+        },
+      });
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/reviews/${reviewId}`,
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+        payload: {
+          professionalism: 5,
+          comment: 'Something polite',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().state).toBe(ReviewState.PENDING);
+    });
+
+    it('should allow moderators to block a reported review', async () => {
+      const report = await prisma.reviewReport.create({
+        data: { reviewId, reportedById: '1', reason: 'OFFENSIVE' },
+      });
+      await prisma.reviewReport.create({
+        data: { reviewId, reportedById: '4', reason: 'HARASSMENT' },
+      });
+
+      const reports = await app.inject({
+        method: 'GET',
+        url: '/reviews/moderation/reports',
+        headers: {
+          'x-e2e-user-email': 'moderator@example.com',
+        },
+      });
+      expect(reports.statusCode).toBe(200);
+      expect(reports.json()).toHaveLength(2);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/moderation/reports/${report.id}/resolve`,
+        headers: {
+          'x-e2e-user-email': 'moderator@example.com',
+        },
+        payload: {
+          action: 'BLOCK_REVIEW',
+          note: 'Personal attacks are not allowed',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().status).toBe('REVIEW_BLOCKED');
+      expect(response.json().review.state).toBe(ReviewState.BLOCKED);
+
+      const openReports = await prisma.reviewReport.count({
+        where: { reviewId, status: 'OPEN' },
+      });
+      expect(openReports).toBe(0);
+    });
+
+    it('should publish a review hidden by the reports when they are dismissed', async () => {
+      await prisma.reviewReport.createMany({
+        data: [
+          { reviewId, reportedById: '3', reason: 'SPAM' },
+          { reviewId, reportedById: '4', reason: 'SPAM' },
+        ],
+      });
+
+      const report = await app.inject({
+        method: 'POST',
+        url: `/reviews/${reviewId}/report`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          reason: 'OFFENSIVE',
+        },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/moderation/reports/${report.json().id}/resolve`,
+        headers: {
+          'x-e2e-user-email': 'moderator@example.com',
+        },
+        payload: {
+          action: 'DISMISS',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().status).toBe('DISMISSED');
+      expect(response.json().review.state).toBe(ReviewState.APPROVED);
+    });
+
+    it('should not approve a review pending for another reason when its reports are dismissed', async () => {
+      await prisma.review.update({
+        where: { id: reviewId },
+        data: {
+          state: ReviewState.PENDING,
+          // only the reports hiding the review are taken into account, not the reason
+          moderationReason: 'Reported by a moderator for spam',
+        },
+      });
+      const report = await prisma.reviewReport.create({
+        data: { reviewId, reportedById: '1', reason: 'OFFENSIVE' },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/moderation/reports/${report.id}/resolve`,
+        headers: {
+          'x-e2e-user-email': 'moderator@example.com',
+        },
+        payload: {
+          action: 'DISMISS',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().status).toBe('DISMISSED');
+      expect(response.json().review.state).toBe(ReviewState.PENDING);
+    });
+
+    it('should not allow regular users to resolve reports', async () => {
+      const report = await prisma.reviewReport.create({
+        data: { reviewId, reportedById: '1', reason: 'OFFENSIVE' },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/reviews/moderation/reports/${report.id}/resolve`,
+        headers: {
+          'x-e2e-user-email': 'alice@example.com',
+        },
+        payload: {
+          action: 'DISMISS',
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('review history tests', () => {
+    let reviewId: string;
+
+    beforeEach(async () => {
+      await prisma.user.createMany({
+        data: [
+          {
+            id: '2',
+            email: 'janedoe@example.com',
+            name: 'Jane Doe',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+          {
+            id: '3',
+            email: 'alice@example.com',
+            name: 'Alice',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+        ],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+        payload: {
+          review: {
+            professionalism: 2,
+            reliability: 2,
+            communication: 2,
+            comment: 'Original comment',
+          },
+          postedToId: '1',
+        },
+      });
+      reviewId = response.json().id;
+    });
+
+    it('should store a revision every time a review is edited', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/reviews/${reviewId}`,
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+        payload: {
+          professionalism: 4,
+          comment: 'Edited comment',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().revisionCount).toBe(2);
+      expect(response.json().editedAt).toBeDefined();
+
+      const history = await app.inject({
+        method: 'GET',
+        url: `/reviews/${reviewId}/history`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(history.statusCode).toBe(200);
+      expect(history.json()).toHaveLength(2);
+      expect(history.json()[0].comment).toBe('Original comment');
+      expect(history.json()[0].professionalism).toBe(2);
+      expect(history.json()[1].comment).toBe('Edited comment');
+      expect(history.json()[1].professionalism).toBe(4);
+      expect(history.json()[1].reliability).toBe(2);
+    });
+
+    it('should not show the history to other users', async () => {
+      const history = await app.inject({
+        method: 'GET',
+        url: `/reviews/${reviewId}/history`,
+        headers: {
+          'x-e2e-user-email': 'alice@example.com',
+        },
+      });
+
+      expect(history.statusCode).toBe(403);
+    });
+  });
+
+  describe('user settings tests', () => {
+    beforeEach(async () => {
+      await prisma.user.create({
+        data: {
+          id: '2',
+          email: 'janedoe@example.com',
+          name: 'Jane Doe',
+          isEmailVerified: true,
+          authType: AuthType.EMAIL,
+          settings: {
+            create: {
+              reviewsVisible: false,
+              anonymous: false,
+            },
+          },
+        },
+      });
+
+      await prisma.user.create({
+        data: {
+          id: '3',
+          email: 'alice@example.com',
+          name: 'Alice',
+          isEmailVerified: true,
+          authType: AuthType.EMAIL,
+          settings: {
+            create: {
+              anonymous: true,
+            },
+          },
+        },
+      });
+
+      await prisma.review.create({
+        data: {
+          postedToId: '2',
+          postedById: '3',
+          ...ratings(4, 4, 4),
+          overallRating: 4,
+          comment: 'Hidden review',
+          anonymous: false,
+          state: ReviewState.APPROVED,
+        },
+      });
+    });
+
+    it('should hide the reviews of a user from other users', async () => {
+      const reviews = await app.inject({
+        method: 'GET',
+        url: '/reviews/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(reviews.statusCode).toBe(200);
+      expect(reviews.json().items).toHaveLength(0);
+
+      const latest = await app.inject({
+        method: 'GET',
+        url: '/reviews/latest',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(
+        latest.json().items.find((r) => r.comment === 'Hidden review'),
+      ).toBeUndefined();
+
+      const connection = await app.inject({
+        method: 'GET',
+        url: '/connections/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(connection.json().reviewsVisible).toBe(false);
+      expect(connection.json().reviewsCount).toBeUndefined();
+      expect(connection.json().reputation).toBeUndefined();
+    });
+
+    it('should hide the rating stats of a user from other users', async () => {
+      for (const url of [
+        '/reviews/avg-rating/2',
+        '/reviews/stats/2/distribution',
+        '/reviews/stats/2/trend',
+      ]) {
+        const hidden = await app.inject({
+          method: 'GET',
+          url,
+          headers: {
+            'x-e2e-user-email': 'johndoe@example.com',
+          },
+        });
+        expect(hidden.statusCode).toBe(404);
+
+        const own = await app.inject({
+          method: 'GET',
+          url,
+          headers: {
+            'x-e2e-user-email': 'janedoe@example.com',
+          },
+        });
+        expect(own.statusCode).toBe(200);
+      }
+    });
+
+    it('should show hidden reviews to the reviewed user', async () => {
+      const reviews = await app.inject({
+        method: 'GET',
+        url: '/reviews/2',
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+      });
+      expect(reviews.json().items).toHaveLength(1);
+
+      const connection = await app.inject({
+        method: 'GET',
+        url: '/connections/2',
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+      });
+      expect(connection.json().reviewsCount).toBe(1);
+    });
+
+    it('should show hidden reviews to their author', async () => {
+      const reviews = await app.inject({
+        method: 'GET',
+        url: '/reviews/2',
+        headers: {
+          'x-e2e-user-email': 'alice@example.com',
+        },
+      });
+      expect(reviews.json().items).toHaveLength(1);
+      expect(reviews.json().items[0].isOwnReview).toBe(true);
+    });
+
+    it('should post anonymous reviews if the author prefers so', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'alice@example.com',
+        },
+        payload: {
+          review: {
+            professionalism: 5,
+            reliability: 5,
+            communication: 5,
+          },
+          postedToId: '1',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().isAnonymous).toBe(true);
+      expect(response.json().postedBy).toBeUndefined();
+    });
+
+    it('should let the author override the anonymous preference', async () => {
+      const anonymous = await app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+        payload: {
+          review: {
+            professionalism: 5,
+            reliability: 5,
+            communication: 5,
+            anonymous: true,
+          },
+          postedToId: '1',
+        },
+      });
+      expect(anonymous.json().isAnonymous).toBe(true);
+
+      const named = await app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+        payload: {
+          review: {
+            professionalism: 5,
+            reliability: 5,
+            communication: 5,
+          },
+          postedToId: '3',
+        },
+      });
+      expect(named.json().isAnonymous).toBe(false);
+      expect(named.json().postedBy.id).toBe('2');
+    });
+  });
+
+  describe('review request tests', () => {
+    beforeEach(async () => {
+      await prisma.user.create({
+        data: {
+          id: '2',
+          email: 'janedoe@example.com',
+          name: 'Jane Doe',
+          isEmailVerified: true,
+          authType: AuthType.EMAIL,
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await redis.del('review-request-sends-1');
+    });
+
+    const requestReview = (payload: object) =>
+      app.inject({
+        method: 'POST',
+        url: '/reviews/requests',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload,
+      });
+
+    it('should be able to ask a user for a review', async () => {
+      const response = await requestReview({
+        userId: '2',
+        message: 'Could you review me?',
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().status).toBe(ReviewRequestStatus.SENT);
+      expect(response.json().recipient.id).toBe('2');
+      expect(response.json().isExpired).toBe(false);
+
+      const notifications = await prisma.notification.findMany({
+        where: { userId: '2', type: NotificationType.REVIEW_REQUEST },
+      });
+      expect(notifications).toHaveLength(1);
+    });
+
+    it('should be able to ask someone without an account for a review', async () => {
+      const response = await requestReview({ email: 'nobody@example.com' });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().email).toBe('nobody@example.com');
+      expect(response.json().recipient).toBeUndefined();
+    });
+
+    it('should limit the number of requests sent in a day', async () => {
+      await redis.set('review-request-sends-1', 20);
+
+      const response = await requestReview({ email: 'nobody@example.com' });
+
+      expect(response.statusCode).toBe(429);
+      expect(
+        await prisma.reviewRequest.count({ where: { requestedById: '1' } }),
+      ).toBe(0);
+    });
+
+    it('should require exactly one recipient', async () => {
+      const none = await requestReview({});
+      expect(none.statusCode).toBe(400);
+
+      const both = await requestReview({
+        userId: '2',
+        email: 'nobody@example.com',
+      });
+      expect(both.statusCode).toBe(400);
+    });
+
+    it('should not be able to ask yourself for a review', async () => {
+      const response = await requestReview({ email: 'johndoe@example.com' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should not send the same request twice', async () => {
+      await requestReview({ userId: '2' });
+      const response = await requestReview({ userId: '2' });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should not tell who owns an email', async () => {
+      await requestReview({ userId: '2' });
+      const response = await requestReview({ email: 'janedoe@example.com' });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().email).toBe('janedoe@example.com');
+      expect(response.json().recipient).toBeUndefined();
+    });
+
+    it('should not tell if the user already reviewed the sender', async () => {
+      await prisma.review.create({
+        data: {
+          postedToId: '1',
+          postedById: '2',
+          ...ratings(5, 5, 5),
+          anonymous: true,
+          state: ReviewState.APPROVED,
+        },
+      });
+
+      const response = await requestReview({ userId: '2' });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().status).toBe(ReviewRequestStatus.SENT);
+
+      const notifications = await prisma.notification.count({
+        where: { userId: '2', type: NotificationType.REVIEW_REQUEST },
+      });
+      expect(notifications).toBe(0);
+    });
+
+    it('should open and decline a request with the invite link', async () => {
+      await requestReview({ userId: '2' });
+      const { token } = await prisma.reviewRequest.findFirst();
+
+      const invitation = await app.inject({
+        method: 'GET',
+        url: `/reviews/requests/${token}`,
+      });
+      expect(invitation.statusCode).toBe(200);
+      expect(invitation.json().requestedBy.id).toBe('1');
+      expect(invitation.json().status).toBe(ReviewRequestStatus.OPENED);
+
+      const decline = await app.inject({
+        method: 'POST',
+        url: `/reviews/requests/${token}/decline`,
+      });
+      expect(decline.statusCode).toBe(201);
+
+      const requests = await app.inject({
+        method: 'GET',
+        url: '/reviews/requests',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(requests.json()[0].status).toBe(ReviewRequestStatus.DECLINED);
+    });
+
+    it('should not open an expired request', async () => {
+      await requestReview({ userId: '2' });
+      const { token } = await prisma.reviewRequest.update({
+        where: { token: (await prisma.reviewRequest.findFirst()).token },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/reviews/requests/${token}`,
+      });
+      expect(response.statusCode).toBe(410);
+    });
+
+    it('should complete the request when the review is posted', async () => {
+      await requestReview({ userId: '2' });
+
+      await app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'janedoe@example.com',
+        },
+        payload: {
+          review: {
+            professionalism: 5,
+            reliability: 5,
+            communication: 5,
+          },
+          postedToId: '1',
+        },
+      });
+
+      const requests = await app.inject({
+        method: 'GET',
+        url: '/reviews/requests',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(requests.json()[0].status).toBe(ReviewRequestStatus.COMPLETED);
+      expect(requests.json()[0].respondedAt).toBeDefined();
+    });
+  });
+
+  describe('review draft tests', () => {
+    beforeEach(async () => {
+      await prisma.user.create({
+        data: {
+          id: '2',
+          email: 'janedoe@example.com',
+          name: 'Jane Doe',
+          isEmailVerified: true,
+          authType: AuthType.EMAIL,
+        },
+      });
+    });
+
+    const saveDraft = (payload: object) =>
+      app.inject({
+        method: 'PUT',
+        url: '/reviews/drafts/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload,
+      });
+
+    it('should be able to save and get a draft', async () => {
+      const saved = await saveDraft({ professionalism: 4, comment: 'Half' });
+      expect(saved.statusCode).toBe(200);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/drafts/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().professionalism).toBe(4);
+      expect(response.json().reliability).toBeUndefined();
+      expect(response.json().comment).toBe('Half');
+    });
+
+    it('should replace the draft when saving it again', async () => {
+      await saveDraft({ professionalism: 4, comment: 'Half' });
+      await saveDraft({ reliability: 3 });
+
+      const drafts = await app.inject({
+        method: 'GET',
+        url: '/reviews/drafts',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(drafts.json()).toHaveLength(1);
+      expect(drafts.json()[0].reliability).toBe(3);
+      expect(drafts.json()[0].professionalism).toBeUndefined();
+    });
+
+    it('should not publish an incomplete draft', async () => {
+      await saveDraft({ professionalism: 4 });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/reviews/drafts/2/publish',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(await prisma.reviewDraft.count()).toBe(1);
+    });
+
+    it('should publish a draft as a review', async () => {
+      await saveDraft({
+        professionalism: 4,
+        reliability: 5,
+        communication: 3,
+        comment: 'Finished',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/reviews/drafts/2/publish',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().postedToId).toBe('2');
+      expect(response.json().comment).toBe('Finished');
+      expect(await prisma.reviewDraft.count()).toBe(0);
+
+      const notifications = await prisma.notification.findMany({
+        where: { userId: '2', type: NotificationType.REVIEW },
+      });
+      expect(notifications).toHaveLength(1);
+    });
+
+    it('should keep the draft if the review cannot be posted', async () => {
+      await prisma.review.create({
+        data: {
+          postedToId: '2',
+          postedById: '1',
+          ...ratings(5, 5, 5),
+          overallRating: 5,
+          state: ReviewState.APPROVED,
+        },
+      });
+      await saveDraft({ professionalism: 4, reliability: 4, communication: 4 });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/reviews/drafts/2/publish',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(await prisma.reviewDraft.count()).toBe(1);
+    });
+
+    it('should be able to delete a draft', async () => {
+      await saveDraft({ professionalism: 4 });
+
+      const deleted = await app.inject({
+        method: 'DELETE',
+        url: '/reviews/drafts/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(deleted.statusCode).toBe(200);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/drafts/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('content filter tests', () => {
+    beforeEach(async () => {
+      await prisma.user.create({
+        data: {
+          id: '2',
+          email: 'janedoe@example.com',
+          name: 'Jane Doe',
+          isEmailVerified: true,
+          authType: AuthType.EMAIL,
+        },
+      });
+    });
+
+    const postReview = (comment: string) =>
+      app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          review: {
+            professionalism: 5,
+            reliability: 5,
+            communication: 5,
+            comment,
+          },
+          postedToId: '2',
+        },
+      });
+
+    it('should mask emails and phone numbers', async () => {
+      const response = await postReview(
+        'Reach her at jane@example.com or +1 555 123 4567',
+      );
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().comment).toBe(
+        'Reach her at **************** or ** *** *** ****',
+      );
+      expect(response.json().state).toBe(ReviewState.APPROVED);
+    });
+
+    it('should not mask dates and year ranges', async () => {
+      const comment =
+        'We worked together 2019-2021 and 2015 - 2020, last time on 2022-03-14';
+      const response = await postReview(comment);
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().comment).toBe(comment);
+    });
+
+    it('should send offensive reviews to moderation', async () => {
+      const response = await postReview('She is an idiot');
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().state).toBe(ReviewState.PENDING);
+      expect(response.json().moderationReason).toContain('idiot');
+    });
+
+    it('should filter edited reviews', async () => {
+      const created = await postReview('Great work');
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/reviews/${created.json().id}`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          comment: 'Actually a moron, call 555-123-4567',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().comment).toBe(
+        'Actually a moron, call ************',
+      );
+      expect(response.json().state).toBe(ReviewState.PENDING);
+
+      const history = await app.inject({
+        method: 'GET',
+        url: `/reviews/${created.json().id}/history`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(history.json()[1].comment).not.toContain('555');
+    });
+  });
+
+  describe('rating dimension tests', () => {
+    beforeEach(async () => {
+      await prisma.user.createMany({
+        data: [
+          {
+            id: '2',
+            email: 'janedoe@example.com',
+            name: 'Jane Doe',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+          {
+            id: '3',
+            email: 'admin@example.com',
+            name: 'Admin',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+            role: UserRole.ADMIN,
+          },
+        ],
+      });
+    });
+
+    const createDimension = (email: string) =>
+      app.inject({
+        method: 'POST',
+        url: '/reviews/dimensions',
+        headers: {
+          'x-e2e-user-email': email,
+        },
+        payload: {
+          id: 'technicalSkill',
+          label: 'Technical skill',
+          position: 3,
+        },
+      });
+
+    const postReview = (review: object) =>
+      app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          review,
+          postedToId: '2',
+        },
+      });
+
+    it('should list the dimensions in order', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/dimensions',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().map((d) => d.id)).toEqual([
+        'professionalism',
+        'reliability',
+        'communication',
+      ]);
+    });
+
+    it('should only allow admins to add dimensions', async () => {
+      expect((await createDimension('johndoe@example.com')).statusCode).toBe(
+        403,
+      );
+      expect((await createDimension('admin@example.com')).statusCode).toBe(201);
+      expect((await createDimension('admin@example.com')).statusCode).toBe(409);
+    });
+
+    it('should not require a rating for the added dimensions', async () => {
+      await createDimension('admin@example.com');
+
+      const response = await postReview({
+        professionalism: 5,
+        reliability: 4,
+        communication: 3,
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().scores.map((s) => s.dimension)).toEqual([
+        'professionalism',
+        'reliability',
+        'communication',
+      ]);
+    });
+
+    it('should rate the added dimensions', async () => {
+      await createDimension('admin@example.com');
+
+      const response = await postReview({
+        professionalism: 5,
+        reliability: 4,
+        communication: 3,
+        scores: [{ dimension: 'technicalSkill', rating: 2 }],
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().professionalism).toBe(5);
+      expect(response.json().scores).toEqual([
+        { dimension: 'professionalism', label: 'Professionalism', rating: 5 },
+        { dimension: 'reliability', label: 'Reliability', rating: 4 },
+        { dimension: 'communication', label: 'Communication', rating: 3 },
+        { dimension: 'technicalSkill', label: 'Technical skill', rating: 2 },
+      ]);
+
+      const avgRating = await app.inject({
+        method: 'GET',
+        url: '/reviews/avg-rating/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+      expect(
+        avgRating.json().scores.find((s) => s.dimension === 'technicalSkill')
+          .rating,
+      ).toBe(2);
+    });
+
+    it('should not rate unknown dimensions', async () => {
+      const response = await postReview({
+        professionalism: 5,
+        reliability: 5,
+        communication: 5,
+        scores: [{ dimension: 'unknown', rating: 5 }],
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should ignore the legacy fields of inactive dimensions', async () => {
+      const update = await app.inject({
+        method: 'PUT',
+        url: '/reviews/dimensions/communication',
+        headers: {
+          'x-e2e-user-email': 'admin@example.com',
+        },
+        payload: {
+          active: false,
+        },
+      });
+      expect(update.statusCode).toBe(200);
+
+      const response = await postReview({
+        professionalism: 5,
+        reliability: 5,
+        communication: 1,
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().communication).toBeUndefined();
+      expect(response.json().scores).toHaveLength(2);
+    });
+  });
+
+  describe('skill tests', () => {
+    beforeEach(async () => {
+      for (const id of ['2', '3', '4']) {
+        await prisma.user.create({
+          data: {
+            id,
+            email: `user-${id}@example.com`,
+            name: `User ${id}`,
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+        });
+      }
+    });
+
+    const postReview = (email: string, postedToId: string, skills: string[]) =>
+      app.inject({
+        method: 'POST',
+        url: '/reviews',
+        headers: {
+          'x-e2e-user-email': email,
+        },
+        payload: {
+          review: {
+            professionalism: 5,
+            reliability: 5,
+            communication: 5,
+            skills,
+          },
+          postedToId,
+        },
+      });
+
+    it('should tag a review with skills', async () => {
+      const response = await postReview('johndoe@example.com', '2', [
+        'TypeScript',
+        ' typescript ',
+        'Team  Leadership',
+      ]);
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().skills.map((s) => s.name)).toEqual([
+        'Team Leadership',
+        'TypeScript',
+      ]);
+      expect(await prisma.skill.count()).toBe(2);
+    });
+
+    it('should reuse the skills of the catalog', async () => {
+      await postReview('johndoe@example.com', '2', ['TypeScript']);
+      const response = await postReview('user-3@example.com', '2', [
+        'TYPESCRIPT',
+      ]);
+
+      expect(response.json().skills[0].name).toBe('TypeScript');
+      expect(await prisma.skill.count()).toBe(1);
+    });
+
+    it('should validate the skills', async () => {
+      const response = await postReview(
+        'johndoe@example.com',
+        '2',
+        Array.from({ length: 11 }, (_, i) => `Skill ${i}`),
+      );
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should replace the skills when editing a review', async () => {
+      const created = await postReview('johndoe@example.com', '2', [
+        'TypeScript',
+      ]);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/reviews/${created.json().id}`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          skills: ['Rust'],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().skills.map((s) => s.name)).toEqual(['Rust']);
+    });
+
+    it('should autocomplete skills, most used first', async () => {
+      await postReview('johndoe@example.com', '2', ['JavaScript']);
+      await postReview('user-3@example.com', '2', ['TypeScript']);
+      await postReview('user-4@example.com', '2', ['TypeScript']);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/skills?q=script',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().map((s) => s.name)).toEqual([
+        'TypeScript',
+        'JavaScript',
+      ]);
+    });
+
+    it('should get the top skills of a user', async () => {
+      await postReview('johndoe@example.com', '2', ['TypeScript', 'Rust']);
+      await postReview('user-3@example.com', '2', ['TypeScript']);
+      await postReview('user-4@example.com', '3', ['Rust']);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/stats/2/skills?limit=5',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(
+        response.json().map(({ name, count }) => ({ name, count })),
+      ).toEqual([
+        { name: 'TypeScript', count: 2 },
+        { name: 'Rust', count: 1 },
+      ]);
+    });
+
+    it('should keep the skills of a draft until it is published', async () => {
+      await app.inject({
+        method: 'PUT',
+        url: '/reviews/drafts/2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+        payload: {
+          professionalism: 4,
+          reliability: 4,
+          communication: 4,
+          skills: ['Mentoring'],
+        },
+      });
+      expect(await prisma.skill.count()).toBe(0);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/reviews/drafts/2/publish',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().skills[0].name).toBe('Mentoring');
+    });
+  });
+
+  describe('pagination tests', () => {
+    beforeEach(async () => {
+      await prisma.user.createMany({
+        data: [
+          {
+            id: '2',
+            email: 'janedoe@example.com',
+            name: 'Jane Doe',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+          ...[1, 2, 3, 4, 5].map((rating) => ({
+            id: `reviewer-${rating}`,
+            email: `reviewer${rating}@example.com`,
+            authType: AuthType.EMAIL,
+          })),
+        ],
+      });
+
+      for (const rating of [1, 2, 3, 4, 5]) {
+        await prisma.review.create({
+          data: {
+            postedToId: '2',
+            postedById: `reviewer-${rating}`,
+            ...ratings(rating, rating, rating),
+            overallRating: rating,
+            comment: rating % 2 === 0 ? null : `Rating ${rating}`,
+            createdAt: new Date(2024, 0, rating),
+            state: ReviewState.APPROVED,
+          },
+        });
+      }
+    });
+
+    it('should paginate the reviews of a user with a cursor', async () => {
+      const firstPage = await app.inject({
+        method: 'GET',
+        url: '/reviews/2?limit=2',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(firstPage.statusCode).toBe(200);
+      expect(firstPage.json().items).toHaveLength(2);
+      expect(firstPage.json().items[0].professionalism).toBe(5);
+      expect(firstPage.json().nextCursor).toBe(firstPage.json().items[1].id);
+
+      const lastPage = await app.inject({
+        method: 'GET',
+        url: `/reviews/2?limit=3&cursor=${firstPage.json().nextCursor}`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(lastPage.statusCode).toBe(200);
+      expect(lastPage.json().items).toHaveLength(3);
+      expect(lastPage.json().items[0].professionalism).toBe(3);
+      expect(lastPage.json().nextCursor).toBeNull();
+    });
+
+    it('should sort the reviews by rating', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/2?sort=lowest',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().items.map((r) => r.professionalism)).toStrictEqual(
+        [1, 2, 3, 4, 5],
+      );
+    });
+
+    it('should filter the reviews', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/2?minProfessionalism=2&hasComment=true&to=2024-01-04T00:00:00.000Z',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().items).toHaveLength(1);
+      expect(response.json().items[0].comment).toBe('Rating 3');
+    });
+
+    it('should validate the query params', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/reviews/latest?limit=1000&sort=random',
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('search tests', () => {
+    beforeEach(async () => {
+      await prisma.user.createMany({
+        data: [2, 3, 4].map((id) => ({
+          id: `${id}`,
+          email: `user-${id}@example.com`,
+          name: `User ${id}`,
+          isEmailVerified: true,
+          authType: AuthType.EMAIL,
+        })),
+      });
+      await prisma.userSettings.create({
+        data: { userId: '4', reviewsVisible: false },
+      });
+
+      const reviews = [
+        {
+          postedById: '2',
+          postedToId: '3',
+          comment: 'Great <b>communication</b>, always communicating clearly',
+          rating: 5,
+          state: ReviewState.APPROVED,
+        },
+        {
+          postedById: '3',
+          postedToId: '2',
+          comment: 'Communication could be better, but reliable',
+          rating: 3,
+          state: ReviewState.APPROVED,
+        },
+        {
+          postedById: '2',
+          postedToId: '4',
+          comment: 'Excellent communication',
+          rating: 5,
+          state: ReviewState.APPROVED,
+        },
+        {
+          postedById: '4',
+          postedToId: '2',
+          comment: 'Pending communication review',
+          rating: 4,
+          state: ReviewState.PENDING,
+        },
+      ];
+      for (const { rating, ...review } of reviews) {
+        await prisma.review.create({
+          data: {
+            ...review,
+            ...ratings(rating, rating, rating),
+            overallRating: rating,
+          },
+        });
+      }
+    });
+
+    const search = (query: string, email = 'johndoe@example.com') =>
+      app.inject({
+        method: 'GET',
+        url: `/reviews/search?${query}`,
+        headers: {
+          'x-e2e-user-email': email,
+        },
+      });
+
+    it('should find the visible reviews, most relevant first', async () => {
+      const response = await search('q=communication');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().items.map((r) => r.comment)).toStrictEqual([
+        'Great <b>communication</b>, always communicating clearly',
+        'Communication could be better, but reliable',
+      ]);
+      expect(response.json().items[0].rank).toBeGreaterThan(
+        response.json().items[1].rank,
+      );
+      expect(response.json().nextCursor).toBeNull();
+    });
+
+    it('should highlight the matches in an escaped snippet', async () => {
+      const response = await search('q=communication');
+
+      expect(response.json().items[0].snippet).toContain(
+        '&lt;b&gt;<mark>communication</mark>&lt;/b&gt;',
+      );
+    });
+
+    it('should find the own hidden and pending reviews', async () => {
+      const reviewee = await search('q=communication', 'user-4@example.com');
+      expect(reviewee.json().items).toHaveLength(4);
+
+      const author = await search('q=pending', 'user-4@example.com');
+      expect(author.json().items).toHaveLength(1);
+
+      const other = await search('q=pending');
+      expect(other.json().items).toHaveLength(0);
+    });
+
+    it('should filter the results', async () => {
+      const response = await search('q=communication&postedToId=2&maxRating=4');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().items).toHaveLength(1);
+      expect(response.json().items[0].postedToId).toBe('2');
+    });
+
+    it('should paginate the results', async () => {
+      const firstPage = await search('q=communication&limit=1');
+      expect(firstPage.json().items).toHaveLength(1);
+      expect(firstPage.json().nextCursor).toBe('1');
+
+      const lastPage = await search('q=communication&limit=1&cursor=1');
+      expect(lastPage.json().items[0].id).not.toBe(
+        firstPage.json().items[0].id,
+      );
+      expect(lastPage.json().nextCursor).toBeNull();
+    });
+
+    it('should require a search term', async () => {
+      const response = await search('maxRating=4');
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('badge tests', () => {
+    beforeEach(async () => {
+      for (const id of ['2', '3']) {
+        await prisma.user.create({
+          data: {
+            id,
+            email: `user-${id}@example.com`,
+            name: `User ${id}`,
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+            settings: { create: {} },
+          },
+        });
+      }
+
+      // posting the reviews refreshes the cached averages of the user
+      for (const [email, rating] of [
+        ['johndoe@example.com', 5],
+        ['user-3@example.com', 4],
+      ] as const) {
+        await app.inject({
+          method: 'POST',
+          url: '/reviews',
+          headers: {
+            'x-e2e-user-email': email,
+          },
+          payload: {
+            review: {
+              professionalism: rating,
+              reliability: rating,
+              communication: rating,
+            },
+            postedToId: '2',
+          },
+        });
+      }
+    });
+
+    it('should render the badge of a user without authentication', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/public/badge/2.svg?theme=dark&label=Rated%20on%20Culero',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('image/svg+xml');
+      expect(response.headers['etag']).toBeDefined();
+      expect(response.body).toContain('Rated on Culero');
+      expect(response.body).toContain('4.5 · 2 reviews');
+    });
+
+    it('should return the widget of a user', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/public/widget/2.json?color=ff0000',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().rating).toBe(4.5);
+      expect(response.json().reviewsCount).toBe(2);
+      expect(response.json().scores).toHaveLength(3);
+      expect(response.json().theme.accent).toBe('#ff0000');
+    });
+
+    it('should answer with 304 to a matching ETag', async () => {
+      const first = await app.inject({
+        method: 'GET',
+        url: '/public/badge/2.svg',
+      });
+      const second = await app.inject({
+        method: 'GET',
+        url: '/public/badge/2.svg',
+        headers: {
+          'if-none-match': first.headers['etag'] as string,
+        },
+      });
+
+      expect(second.statusCode).toBe(304);
+      expect(second.body).toBe('');
+    });
+
+    it('should not show the badge of users who opted out', async () => {
+      await prisma.userSettings.update({
+        where: { userId: '2' },
+        data: { publicBadge: false },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/public/badge/2.svg',
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should not show the badge of users who hid their reviews', async () => {
+      await prisma.userSettings.update({
+        where: { userId: '2' },
+        data: { reviewsVisible: false },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/public/widget/2.json',
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should validate the theme', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/public/badge/2.svg?color=red',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('export tests', () => {
+    beforeEach(async () => {
+      for (const id of ['secret-author', 'known-author']) {
+        await prisma.user.create({
+          data: {
+            id,
+            email: `${id}@example.com`,
+            name: id === 'known-author' ? 'Known Author' : 'Secret Author',
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+        });
+      }
+
+      await prisma.review.create({
+        data: {
+          postedToId: '1',
+          postedById: 'secret-author',
+          ...ratings(4, 4, 4),
+          overallRating: 4,
+          comment: 'Helpful, "always" on time',
+          anonymous: true,
+          state: ReviewState.APPROVED,
+        },
+      });
+      await prisma.review.create({
+        data: {
+          postedToId: '1',
+          postedById: 'known-author',
+          ...ratings(5, 5, 5),
+          overallRating: 5,
+          comment: '=HYPERLINK("http://example.com")',
+          anonymous: false,
+          state: ReviewState.APPROVED,
+        },
+      });
+      await prisma.review.create({
+        data: {
+          postedToId: 'known-author',
+          postedById: '1',
+          ...ratings(3, 3, 3),
+          overallRating: 3,
+          state: ReviewState.APPROVED,
+        },
+      });
+    });
+
+    const exportReviews = (query: string) =>
+      app.inject({
+        method: 'GET',
+        url: `/reviews/export?${query}`,
+        headers: {
+          'x-e2e-user-email': 'johndoe@example.com',
+        },
+      });
+
+    it('should export the received reviews as CSV without anonymous authors', async () => {
+      const response = await exportReviews('format=csv');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain(
+        'culero-reviews-received.csv',
+      );
+
+      const lines = response.body.trim().split('\r\n');
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toContain('Professionalism');
+      expect(response.body).toContain('Known Author');
+      expect(response.body).toContain('"Helpful, ""always"" on time"');
+      expect(response.body).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+      expect(response.body).not.toContain('secret-author');
+      expect(response.body).not.toContain('Secret Author');
+    });
+
+    it('should export the posted reviews as JSON', async () => {
+      const response = await exportReviews('format=json&scope=posted');
+
+      expect(response.statusCode).toBe(200);
+      const reviews = JSON.parse(response.body);
+      expect(reviews).toHaveLength(1);
+      expect(reviews[0].postedToId).toBe('known-author');
+    });
+
+    it('should export the received reviews as a PDF report', async () => {
+      const response = await exportReviews('format=pdf');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.body.startsWith('%PDF-1.4')).toBe(true);
+      expect(response.body).toContain('Overall average 4.5 / 5');
+      expect(response.body).not.toContain('Secret Author');
+    });
+
+    it('should validate the format', async () => {
+      const response = await exportReviews('format=xml');
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('favorite tests', () => {
+    let reviewIds: string[];
+
+    beforeEach(async () => {
+      for (const id of ['2', '3']) {
+        await prisma.user.create({
+          data: {
+            id,
+            email: `user-${id}@example.com`,
+            name: `User ${id}`,
+            isEmailVerified: true,
+            authType: AuthType.EMAIL,
+          },
+        });
+      }
+
+      reviewIds = [];
+      for (const [postedById, postedToId] of [
+        ['2', '3'],
+        ['3', '2'],
+      ]) {
+        const review = await prisma.review.create({
+          data: {
+            postedById,
+            postedToId,
+            ...ratings(5, 5, 5),
+            overallRating: 5,
+            state: ReviewState.APPROVED,
+          },
+        });
+        reviewIds.push(review.id);
+      }
+    });
+
+    const request = (
+      method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+      url: string,
+      payload?: object,
+      email = 'johndoe@example.com',
+    ) =>
+      app.inject({
+        method,
+        url,
+        headers: {
+          'x-e2e-user-email': email,
+        },
+        payload,
+      });
+
+    it('should list the liked reviews with their likes count', async () => {
+      await request('POST', `/reviews/${reviewIds[0]}/like`);
+      await request(
+        'POST',
+        `/reviews/${reviewIds[0]}/like`,
+        undefined,
+        'user-3@example.com',
+      );
+      await request('POST', `/reviews/${reviewIds[1]}/like`);
+
+      const response = await request('GET', '/reviews/favorites?limit=1');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().items).toHaveLength(1);
+      expect(response.json().items[0].id).toBe(reviewIds[1]);
+      expect(response.json().items[0].isFavorite).toBe(true);
+      expect(response.json().nextCursor).not.toBeNull();
+
+      const lastPage = await request(
+        'GET',
+        `/reviews/favorites?limit=1&cursor=${response.json().nextCursor}`,
+      );
+      expect(lastPage.json().items[0].id).toBe(reviewIds[0]);
+      expect(lastPage.json().items[0].likesCount).toBe(2);
+      expect(lastPage.json().nextCursor).toBeNull();
+    });
+
+    it('should file favorites in collections', async () => {
+      const collection = await request(
+        'POST',
+        '/reviews/favorites/collections',
+        {
+          name: 'Teamwork',
+          isPublic: true,
+        },
+      );
+      expect(collection.statusCode).toBe(201);
+
+      const added = await request(
+        'PUT',
+        `/reviews/favorites/collections/${collection.json().id}/reviews/${reviewIds[0]}`,
+      );
+      expect(added.statusCode).toBe(200);
+      expect(added.json().favoritesCount).toBe(1);
+
+      await request('POST', `/reviews/${reviewIds[1]}/like`);
+
+      const filtered = await request(
+        'GET',
+        `/reviews/favorites?collectionId=${collection.json().id}`,
+      );
+      expect(filtered.json().items.map((r) => r.id)).toStrictEqual([
+        reviewIds[0],
+      ]);
+
+      const all = await request('GET', '/reviews/favorites');
+      expect(all.json().items).toHaveLength(2);
+    });
+
+    it('should show the public collections to other users', async () => {
+      const publicCollection = await request(
+        'POST',
+        '/reviews/favorites/collections',
+        { name: 'Highlights', isPublic: true },
+      );
+      const privateCollection = await request(
+        'POST',
+        '/reviews/favorites/collections',
+        { name: 'Private' },
+      );
+      await request(
+        'PUT',
+        `/reviews/favorites/collections/${publicCollection.json().id}/reviews/${reviewIds[0]}`,
+      );
+
+      const collections = await request(
+        'GET',
+        '/reviews/favorites/collections/user/1',
+        undefined,
+        'user-2@example.com',
+      );
+      expect(collections.json().map((c) => c.name)).toStrictEqual([
+        'Highlights',
+      ]);
+
+      const reviews = await request(
+        'GET',
+        `/reviews/favorites/collections/${publicCollection.json().id}/reviews`,
+        undefined,
+        'user-2@example.com',
+      );
+      expect(reviews.statusCode).toBe(200);
+      expect(reviews.json().items).toHaveLength(1);
+
+      const hidden = await request(
+        'GET',
+        `/reviews/favorites/collections/${privateCollection.json().id}/reviews`,
+        undefined,
+        'user-2@example.com',
+      );
+      expect(hidden.statusCode).toBe(404);
+    });
+
+    it('should keep the favorites when a collection is deleted', async () => {
+      const collection = await request(
+        'POST',
+        '/reviews/favorites/collections',
+        {
+          name: 'Teamwork',
+        },
+      );
+      await request(
+        'PUT',
+        `/reviews/favorites/collections/${collection.json().id}/reviews/${reviewIds[0]}`,
+      );
+
+      const response = await request(
+        'DELETE',
+        `/reviews/favorites/collections/${collection.json().id}`,
+      );
+      expect(response.statusCode).toBe(200);
+
+      const favorites = await request('GET', '/reviews/favorites');
+      expect(favorites.json().items).toHaveLength(1);
+    });
+
+    it('should not create two collections with the same name', async () => {
+      await request('POST', '/reviews/favorites/collections', {
+        name: 'Teamwork',
+      });
+      const response = await request('POST', '/reviews/favorites/collections', {
+        name: 'Teamwork',
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('featured review tests', () => {
+    let reviewIds: string[];
+
+    beforeEach(async () => {
+      reviewIds = [];
+      for (const id of ['2', '3', '4', '5', '6', '7']) {
+        await prisma.user.create({
+          data: {
+            id,
+            email: `user-${id}@example.com`,
+            authType: AuthType.EMAIL,
+          },
+        });
+        const review = await prisma.review.create({
+          data: {
+            postedById: id,
+            postedToId: '1',
+            ...ratings(4, 4, 4),
+            overallRating: 4,
+            createdAt: new Date(2024, 0, Number(id)),
+            state: id === '7' ? ReviewState.PENDING : ReviewState.APPROVED,
+          },
+        });
+        reviewIds.push(review.id);
+      }
+    });
+
+    const request = (
+      method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+      url: string,
+      payload?: object,
+      email = 'johndoe@example.com',
+    ) =>
+      app.inject({
+        method,
+        url,
+        headers: {
+          'x-e2e-user-email': email,
+        },
+        payload,
+      });
+
+    it('should list the featured reviews first', async () => {
+      await request('POST', `/reviews/featured/${reviewIds[0]}`);
+      const response = await request(
+        'POST',
+        `/reviews/featured/${reviewIds[1]}`,
+      );
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().map((r) => r.id)).toStrictEqual([
+        reviewIds[0],
+        reviewIds[1],
+      ]);
+
+      const reviews = await request(
+        'GET',
+        '/reviews/1',
+        undefined,
+        'user-2@example.com',
+      );
+      expect(
+        reviews
+          .json()
+          .items.map((r) => r.id)
+          .slice(0, 3),
+      ).toStrictEqual([reviewIds[0], reviewIds[1], reviewIds[4]]);
+      expect(reviews.json().items[0].isFeatured).toBe(true);
+      expect(reviews.json().items[2].isFeatured).toBe(false);
+    });
+
+    it('should reorder the featured reviews', async () => {
+      await request('POST', `/reviews/featured/${reviewIds[0]}`);
+      await request('POST', `/reviews/featured/${reviewIds[1]}`);
+
+      const response = await request('PUT', '/reviews/featured', {
+        reviewIds: [reviewIds[1], reviewIds[0]],
+      });
+      expect(response.statusCode).toBe(200);
+
+      const featured = await request(
+        'GET',
+        '/reviews/featured/1',
+        undefined,
+        'user-2@example.com',
+      );
+      expect(featured.json().map((r) => r.id)).toStrictEqual([
+        reviewIds[1],
+        reviewIds[0],
+      ]);
+
+      const incomplete = await request('PUT', '/reviews/featured', {
+        reviewIds: [reviewIds[1]],
+      });
+      expect(incomplete.statusCode).toBe(400);
+    });
+
+    it('should unfeature a review', async () => {
+      await request('POST', `/reviews/featured/${reviewIds[0]}`);
+
+      const response = await request(
+        'DELETE',
+        `/reviews/featured/${reviewIds[0]}`,
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toHaveLength(0);
+    });
+
+    it('should only feature approved reviews', async () => {
+      const response = await request(
+        'POST',
+        `/reviews/featured/${reviewIds[5]}`,
+      );
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should limit the number of featured reviews', async () => {
+      for (const id of reviewIds.slice(0, 5)) {
+        await request('POST', `/reviews/featured/${id}`);
+      }
+
+      await prisma.review.update({
+        where: { id: reviewIds[5] },
+        data: { state: ReviewState.APPROVED },
+      });
+      const response = await request(
+        'POST',
+        `/reviews/featured/${reviewIds[5]}`,
+      );
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should only let the reviewed user feature a review', async () => {
+      const response = await request(
+        'POST',
+        `/reviews/featured/${reviewIds[0]}`,
+        undefined,
+        'user-2@example.com',
+      );
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
   afterAll(async () => {
     try {
       await prisma.user.deleteMany();
@@ -2,9 +2,55 @@ import { Module } from '@nestjs/common';
 import { ReviewsService } from './reviews.service';
 import { ReviewsController } from './reviews.controller';
 import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReviewModerationController } from './review-moderation.controller';
+import { ReviewModerationPolicy } from './review-moderation.policy';
+import { ReviewReportsService } from './review-reports.service';
+import { ReputationService } from './reputation.service';
+import { ReviewRequestsController } from './review-requests.controller';
+import { ReviewRequestsService } from './review-requests.service';
+import { ReviewDraftsController } from './review-drafts.controller';
+import { ReviewDraftsService } from './review-drafts.service';
+import { ReviewContentFilter } from './content-filter/review-content-filter';
+import { SkillsController } from './skills.controller';
+import { SkillsService } from './skills.service';
+import { RatingDimensionsController } from './rating-dimensions.controller';
+import { RatingDimensionsService } from './rating-dimensions.service';
+import { BadgesController } from './badges.controller';
+import { BadgesService } from './badges.service';
+import { ReviewExportService } from './review-export.service';
+import { ReviewCollectionsController } from './review-collections.controller';
+import { ReviewCollectionsService } from './review-collections.service';
+import { FeaturedReviewsController } from './featured-reviews.controller';
+import { FeaturedReviewsService } from './featured-reviews.service';
 
 @Module({
-  providers: [ReviewsService, NotificationsService],
-  controllers: [ReviewsController],
+  providers: [
+    ReviewsService,
+    NotificationsService,
+    ReviewModerationPolicy,
+    ReviewReportsService,
+    ReputationService,
+    ReviewRequestsService,
+    ReviewDraftsService,
+    ReviewContentFilter,
+    SkillsService,
+    RatingDimensionsService,
+    BadgesService,
+    ReviewExportService,
+    ReviewCollectionsService,
+    FeaturedReviewsService,
+  ],
+  // moderation, request, draft, skill, dimension, collection and featured review routes need to be registered before the "/reviews/:userId" route
+  controllers: [
+    ReviewModerationController,
+    ReviewRequestsController,
+    ReviewDraftsController,
+    SkillsController,
+    RatingDimensionsController,
+    ReviewCollectionsController,
+    FeaturedReviewsController,
+    ReviewsController,
+    BadgesController,
+  ],
 })
 export class ReviewsModule {}
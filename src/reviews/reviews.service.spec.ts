@@ -3,6 +3,11 @@ import { ReviewsService } from './reviews.service';
 import { PrismaService } from '../../src/prisma/prisma.service';
 import { REDIS_CLIENT } from '../../src/provider/redis.provider';
 import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReviewModerationPolicy } from './review-moderation.policy';
+import { ConfigService } from '@nestjs/config';
+import { ReputationService } from './reputation.service';
+import { RatingDimensionsService } from './rating-dimensions.service';
+import { ReviewContentFilter } from './content-filter/review-content-filter';
 
 describe('ReviewsService', () => {
   let service: ReviewsService;
@@ -13,6 +18,11 @@ describe('ReviewsService', () => {
         ReviewsService,
         PrismaService,
         NotificationsService,
+        ReviewModerationPolicy,
+        ConfigService,
+        ReputationService,
+        RatingDimensionsService,
+        ReviewContentFilter,
         {
           provide: REDIS_CLIENT,
           useValue: {},
@@ -1,16 +1,26 @@
 import {
   BadRequestException,
+  ConflictException,
   ForbiddenException,
   Inject,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
 import {
+  Prisma,
   User,
   Review,
   FavoriteReview,
+  ReviewResponse,
   ReviewState,
   NotificationType,
+  UserRole,
+  ReviewRequestStatus,
+  ReviewDraft,
+  ReviewSkill,
+  Skill,
+  ReviewScore,
+  RatingDimension,
 } from '@prisma/client';
 import { PrismaService } from '../../src/prisma/prisma.service';
 import { ReviewDto } from './dto/reviews.dto';
@@ -18,22 +28,77 @@ import { REDIS_CLIENT } from '../../src/provider/redis.provider';
 import Redis from 'ioredis';
 import { CreateReviewDto } from './dto/create-review.dto';
 import { RatingDto } from './dto/rating.dto';
+import {
+  RatingDistributionDto,
+  RatingHistogramDto,
+} from './dto/rating-distribution.dto';
+import {
+  RatingTrendBucket,
+  RatingTrendPointDto,
+  RatingTrendQueryDto,
+} from './dto/rating-trend.dto';
 import { UpdateReviewDto } from './dto/update-review.dto';
 import { NotificationsService } from '../../src/notifications/notifications.service';
+import { ReviewModerationPolicy } from './review-moderation.policy';
+import { ReputationService } from './reputation.service';
+import { ReviewContentFilter } from './content-filter/review-content-filter';
+import { ReviewResponseBodyDto } from './dto/review-response.dto';
+import { ReviewRevisionDto } from './dto/review-revision.dto';
+import { ReviewSort, ReviewsQueryDto } from './dto/reviews-query.dto';
+import {
+  DEFAULT_PAGE_SIZE,
+  PaginatedDto,
+} from '../../src/common/dto/pagination.dto';
+import { getPaginationArgs, toPaginatedDto } from '../../src/utils/pagination';
+import { getSkillSlug, uniqueSkillNames } from '../../src/utils/skills';
+import { EndorsedSkillDto } from './dto/skill.dto';
+import {
+  DimensionScores,
+  RatingDimensionsService,
+} from './rating-dimensions.service';
+import { ReputationScoreDto } from './dto/reputation-score.dto';
+import {
+  ReviewSearchResultDto,
+  SearchReviewsQueryDto,
+} from './dto/search-reviews.dto';
+import { FavoriteReviewsQueryDto } from './dto/review-collection.dto';
+
+// a review from the DB with the relations loaded by includeWithReview
+export type ReviewWithRelations = Review & { postedBy: User } & {
+  favorites: FavoriteReview[];
+} & { response?: ReviewResponse | null } & {
+  _count?: { revisions: number; favorites?: number };
+} & { skills?: (ReviewSkill & { skill: Skill })[] } & {
+  scores?: (ReviewScore & { dimension: RatingDimension })[];
+};
+
+// number of 1-5 star ratings by dimension, with the totals of the reviews
+type ScoreDistribution = {
+  histograms: Record<RatingDimension['id'], RatingHistogramDto>;
+  reviewsCount: number;
+  commentsCount: number;
+  overallRating: number;
+};
 
 @Injectable()
 export class ReviewsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly notificationsService: NotificationsService,
+    private readonly moderationPolicy: ReviewModerationPolicy,
+    private readonly reputationService: ReputationService,
+    private readonly contentFilter: ReviewContentFilter,
+    private readonly ratingDimensionsService: RatingDimensionsService,
     @Inject(REDIS_CLIENT) private cache: Redis,
   ) {}
 
   // transform a review from the DB to ReviewDTO (as expected by the API)
-  private transformReview(
-    review: Review & { postedBy: User } & { favorites: FavoriteReview[] },
+  transformReview(
+    review: ReviewWithRelations,
     currentUserId: User['id'],
   ): ReviewDto {
+    const scores = review.scores ?? [];
+
     return {
       postedBy: !review.anonymous
         ? {
@@ -44,9 +109,14 @@ export class ReviewsService {
           }
         : undefined,
       isAnonymous: review.anonymous,
-      professionalism: review.professionalism,
-      reliability: review.reliability,
-      communication: review.communication,
+      ...this.ratingDimensionsService.toLegacyRatings(
+        Object.fromEntries(scores.map((s) => [s.dimensionId, s.rating])),
+      ),
+      scores: scores.map((s) => ({
+        dimension: s.dimensionId,
+        label: s.dimension.label,
+        rating: s.rating,
+      })),
       comment: review.comment,
       createdAt: review.createdAt,
       isOwnReview: review.postedById == currentUserId,
@@ -54,12 +124,32 @@ export class ReviewsService {
       postedToId: review.postedToId,
       id: review.id,
       isFavorite: !!review.favorites.find((f) => f.userId === currentUserId),
+      likesCount: review._count?.favorites ?? 0,
+      isFeatured: review.featuredPosition !== null,
       state: review.state,
+      moderationReason:
+        review.postedById == currentUserId
+          ? review.moderationReason ?? undefined
+          : undefined,
+      editedAt: review.editedAt ?? undefined,
+      revisionCount: review._count?.revisions ?? 0,
+      response: review.response
+        ? {
+            id: review.response.id,
+            comment: review.response.comment,
+            createdAt: review.response.createdAt,
+            updatedAt: review.response.updatedAt,
+          }
+        : undefined,
+      skills: (review.skills ?? []).map(({ skill }) => ({
+        id: skill.id,
+        name: skill.name,
+      })),
     };
   }
 
   // properties to include with the review. Based on the userId to calculate if review is favorite by review.
-  private includeWithReview(currentUserId: User['id']) {
+  includeWithReview(currentUserId: User['id']) {
     return {
       postedBy: true,
       favorites: {
@@ -67,44 +157,311 @@ export class ReviewsService {
           userId: currentUserId,
         },
       },
+      response: true,
+      _count: {
+        select: {
+          revisions: true,
+          favorites: true,
+        },
+      },
+      skills: {
+        include: { skill: true },
+        orderBy: { skill: { name: 'asc' as const } },
+      },
+      scores: {
+        include: { dimension: true },
+        orderBy: { dimension: { position: 'asc' as const } },
+      },
     };
   }
 
-  private async calculateAvgRating(userId: User['id']): Promise<RatingDto> {
-    const result = await this.prisma.review.aggregate({
-      where: { postedToId: userId },
-      _avg: {
-        professionalism: true,
-        reliability: true,
-        communication: true,
+  // nested prisma writes storing the ratings of a review
+  private getReviewScoresData(
+    scores: DimensionScores,
+  ): Prisma.ReviewScoreCreateWithoutReviewInput[] {
+    return Object.entries(scores).map(([dimensionId, rating]) => ({
+      dimension: { connect: { id: dimensionId } },
+      rating,
+    }));
+  }
+
+  // nested prisma writes tagging a review with the skills, unknown skills are added to the catalog
+  private getReviewSkillsData(
+    names: string[],
+  ): Prisma.ReviewSkillCreateWithoutReviewInput[] {
+    return uniqueSkillNames(names).map((name) => ({
+      skill: {
+        connectOrCreate: {
+          where: { slug: getSkillSlug(name) },
+          create: { name, slug: getSkillSlug(name) },
+        },
       },
+    }));
+  }
+
+  // only approved reviews are taken into account
+  private async calculateAvgRating(
+    userId: User['id'],
+  ): Promise<DimensionScores> {
+    const result = await this.prisma.reviewScore.groupBy({
+      by: ['dimensionId'],
+      where: { review: { postedToId: userId, state: ReviewState.APPROVED } },
+      _avg: { rating: true },
     });
 
+    return Object.fromEntries(
+      result.map((r) => [r.dimensionId, r._avg.rating]),
+    );
+  }
+
+  // only approved reviews are taken into account
+  private async calculateRatingDistribution(
+    userId: User['id'],
+  ): Promise<ScoreDistribution> {
+    const where = { postedToId: userId, state: ReviewState.APPROVED };
+
+    const [scores, totals, commentsCount] = await Promise.all([
+      this.prisma.reviewScore.groupBy({
+        by: ['dimensionId', 'rating'],
+        where: { review: where },
+        _count: { _all: true },
+      }),
+      this.prisma.review.aggregate({
+        where,
+        _count: { _all: true },
+        _avg: { overallRating: true },
+      }),
+      this.prisma.review.count({
+        where: {
+          ...where,
+          AND: [{ comment: { not: null } }, { comment: { not: '' } }],
+        },
+      }),
+    ]);
+
+    const histograms: ScoreDistribution['histograms'] = {};
+    for (const group of scores) {
+      histograms[group.dimensionId] ??= this.getEmptyHistogram();
+      histograms[group.dimensionId][group.rating] = group._count._all;
+    }
+
     return {
-      professionalism: result._avg.professionalism ?? 0,
-      reliability: result._avg.reliability ?? 0,
-      communication: result._avg.communication ?? 0,
+      histograms,
+      reviewsCount: totals._count._all,
+      commentsCount,
+      overallRating: totals._avg.overallRating ?? 0,
     };
   }
 
-  async getUserReviews(user: User, postedToId: User['id']) {
-    const ratings = await this.prisma.review.findMany({
-      where: { postedToId: postedToId },
-      include: this.includeWithReview(user.id),
-      orderBy: {
-        createdAt: 'desc',
+  private getEmptyHistogram(): RatingHistogramDto {
+    return { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  }
+
+  // recalculate the cached average ratings and the reputation, and drop the other cached rating stats of the user
+  private async refreshRatingsCache(userId: User['id']) {
+    const avgRatings = await this.calculateAvgRating(userId);
+    await this.cache.set(`avg-scores-${userId}`, JSON.stringify(avgRatings));
+    await this.cache.del(`score-distribution-${userId}`);
+    await this.reputationService.recalculate(userId);
+  }
+
+  // Check if the user already reviewed this user, that review has to be edited instead
+  private async checkNotReviewedYet(
+    postedById: User['id'],
+    postedToId: User['id'],
+  ) {
+    const existingReview = await this.prisma.review.findUnique({
+      where: {
+        postedById_postedToId: {
+          postedById,
+          postedToId,
+        },
       },
     });
 
-    return ratings
-      .map((review) => this.transformReview(review, user.id))
-      .filter((r) => r.state === 'APPROVED' || r.isOwnReview);
+    if (existingReview) {
+      throw new ConflictException(
+        `You have already reviewed this user, update review ${existingReview.id} instead`,
+      );
+    }
+  }
+
+  // undefined keeps the current moderation reason of the review
+  private getContentFilterReason(reasons: string[]): string | undefined {
+    return reasons.length > 0
+      ? `Flagged by the content filter: ${reasons.join(', ')}`
+      : undefined;
+  }
+
+  // the review answers the review requests sent to its author, be it to their account or their email
+  private async completeReviewRequests(author: User, postedToId: User['id']) {
+    await this.prisma.reviewRequest.updateMany({
+      where: {
+        requestedById: postedToId,
+        status: {
+          in: [ReviewRequestStatus.SENT, ReviewRequestStatus.OPENED],
+        },
+        OR: [
+          { recipientId: author.id },
+          ...(author.email ? [{ email: author.email }] : []),
+        ],
+      },
+      data: {
+        status: ReviewRequestStatus.COMPLETED,
+        respondedAt: new Date(),
+        nextReminderAt: null,
+      },
+    });
+  }
+
+  private async notifyNewReview(
+    review: Review & { postedBy: User },
+  ): Promise<void> {
+    await this.notificationsService.sendNotificationToUser(
+      review.postedToId,
+      NotificationType.REVIEW,
+      `You have a new review from ${review.anonymous ? 'anonymous user' : review.postedBy.name}`,
+      'New Culero review',
+      { postedToId: review.postedToId, postedById: review.postedById },
+    );
+  }
+
+  private getOverallRating(scores: DimensionScores) {
+    const ratings = Object.values(scores);
+
+    return ratings.length > 0
+      ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+      : 0;
+  }
+
+  // reviews of users who hid them in their settings are only visible to them and to the authors
+  getVisibleReviewsFilter(currentUserId: User['id']): Prisma.ReviewWhereInput {
+    return {
+      OR: [
+        { postedToId: currentUserId },
+        { postedById: currentUserId },
+        { NOT: { postedTo: { settings: { reviewsVisible: false } } } },
+      ],
+    };
+  }
+
+  // prisma filters matching the query params of the review listings
+  private getReviewsFilter(query: ReviewsQueryDto): Prisma.ReviewWhereInput {
+    const filters: Prisma.ReviewWhereInput[] = [
+      {
+        createdAt: { gte: query.from, lte: query.to },
+      },
+    ];
+
+    const ratingFilters: [string, number?, number?][] = [
+      ['professionalism', query.minProfessionalism, query.maxProfessionalism],
+      ['reliability', query.minReliability, query.maxReliability],
+      ['communication', query.minCommunication, query.maxCommunication],
+    ];
+    for (const [dimensionId, min, max] of ratingFilters) {
+      if (min !== undefined || max !== undefined) {
+        filters.push({
+          scores: {
+            some: { dimensionId, rating: { gte: min, lte: max } },
+          },
+        });
+      }
+    }
+
+    if (query.anonymousOnly) {
+      filters.push({ anonymous: true });
+    }
+
+    if (query.hasComment === true) {
+      filters.push({ comment: { not: null } }, { comment: { not: '' } });
+    } else if (query.hasComment === false) {
+      filters.push({ OR: [{ comment: null }, { comment: '' }] });
+    }
+
+    return { AND: filters };
+  }
+
+  // the id is always the last sort criteria so the cursor points to a stable position
+  private getReviewsOrder(
+    sort: ReviewSort = ReviewSort.NEWEST,
+  ): Prisma.ReviewOrderByWithRelationInput[] {
+    switch (sort) {
+      case ReviewSort.OLDEST:
+        return [{ createdAt: 'asc' }, { id: 'asc' }];
+      case ReviewSort.HIGHEST:
+        return [
+          { overallRating: 'desc' },
+          { createdAt: 'desc' },
+          { id: 'desc' },
+        ];
+      case ReviewSort.LOWEST:
+        return [
+          { overallRating: 'asc' },
+          { createdAt: 'desc' },
+          { id: 'desc' },
+        ];
+      case ReviewSort.MOST_LIKED:
+        return [
+          { favorites: { _count: 'desc' } },
+          { createdAt: 'desc' },
+          { id: 'desc' },
+        ];
+      case ReviewSort.NEWEST:
+      default:
+        return [{ createdAt: 'desc' }, { id: 'desc' }];
+    }
+  }
+
+  private async paginateReviews(
+    currentUserId: User['id'],
+    where: Prisma.ReviewWhereInput,
+    query: ReviewsQueryDto,
+    orderBy = this.getReviewsOrder(query.sort),
+  ): Promise<PaginatedDto<ReviewDto>> {
+    const reviews = await this.prisma.review.findMany({
+      where: { AND: [where, this.getReviewsFilter(query)] },
+      include: this.includeWithReview(currentUserId),
+      orderBy,
+      ...getPaginationArgs(query),
+    });
+
+    return toPaginatedDto(reviews, query, (r) =>
+      this.transformReview(r, currentUserId),
+    );
   }
 
+  async getUserReviews(
+    user: User,
+    postedToId: User['id'],
+    query: ReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    // other users' reviews are visible only once approved. The reviews featured by the user come first.
+    return this.paginateReviews(
+      user.id,
+      {
+        postedToId,
+        AND: [
+          { OR: [{ state: ReviewState.APPROVED }, { postedById: user.id }] },
+          this.getVisibleReviewsFilter(user.id),
+        ],
+      },
+      query,
+      [
+        { featuredPosition: { sort: 'asc', nulls: 'last' } },
+        ...this.getReviewsOrder(query.sort),
+      ],
+    );
+  }
+
+  /**
+   * Post a review. When the review comes from a draft, the draft is deleted in the same
+   * transaction as the creation of the review.
+   */
   async createReview(
     user: User,
     postedToId: User['id'],
     ratingDto: CreateReviewDto,
+    draftId?: ReviewDraft['id'],
   ) {
     const ratedUser = await this.prisma.user.findUnique({
       where: { id: postedToId },
@@ -120,59 +477,299 @@ export class ReviewsService {
       throw new BadRequestException('You cannot rate yourself');
     }
 
-    ratingDto.anonymous = ratingDto.anonymous ?? false;
+    // Every active legacy dimension has to be rated, the dimensions added later are optional
+    const scores = await this.ratingDimensionsService.getScores(
+      ratingDto,
+      true,
+    );
 
-    // Rate the user
-    const review = await this.prisma.review.create({
-      data: {
-        postedToId: postedToId,
-        postedById: user.id,
-        professionalism: ratingDto.professionalism,
-        reliability: ratingDto.reliability,
-        communication: ratingDto.communication,
-        comment: ratingDto.comment,
-        anonymous: ratingDto.anonymous,
-        state: ReviewState.APPROVED,
-      },
-      include: this.includeWithReview(user.id),
+    await this.checkNotReviewedYet(user.id, postedToId);
+
+    // Reviews are anonymous if the author chose so in their settings, unless specified otherwise
+    const settings = await this.prisma.userSettings.findUnique({
+      where: { userId: user.id },
     });
+    ratingDto.anonymous = ratingDto.anonymous ?? settings?.anonymous ?? false;
 
-    await this.notificationsService.sendNotificationToUser(
-      postedToId,
-      NotificationType.REVIEW,
-      `You have a new review from ${review.anonymous ? 'anonymous user' : review.postedBy.name}`,
-      'New Culero review',
-      { postedToId: postedToId, postedById: user.id },
-    );
+    // Rejected content throws, masked content is replaced before being stored
+    const filtered = this.contentFilter.check(ratingDto.comment);
+    ratingDto.comment = filtered.text;
+
+    const state = filtered.requiresModeration
+      ? ReviewState.PENDING
+      : await this.moderationPolicy.getInitialState(user, {
+          scores,
+          comment: ratingDto.comment,
+        });
+
+    // Rate the user
+    let review: ReviewWithRelations;
+    try {
+      review = await this.prisma.$transaction(async (tx) => {
+        if (draftId) {
+          const { count } = await tx.reviewDraft.deleteMany({
+            where: { id: draftId, postedById: user.id },
+          });
+
+          // the draft was published or deleted in the meantime
+          if (count === 0) {
+            throw new NotFoundException('Draft not found');
+          }
+        }
+
+        return tx.review.create({
+          data: {
+            postedToId: postedToId,
+            postedById: user.id,
+            scores: { create: this.getReviewScoresData(scores) },
+            overallRating: this.getOverallRating(scores),
+            comment: ratingDto.comment,
+            anonymous: ratingDto.anonymous,
+            state,
+            moderationReason: this.getContentFilterReason(filtered.reasons),
+            skills: ratingDto.skills
+              ? { create: this.getReviewSkillsData(ratingDto.skills) }
+              : undefined,
+            // the original version is the first entry in the review history
+            revisions: {
+              create: {
+                scores,
+                comment: ratingDto.comment,
+                anonymous: ratingDto.anonymous,
+              },
+            },
+          },
+          include: this.includeWithReview(user.id),
+        });
+      });
+    } catch (error) {
+      // the same review was posted by another request since the check above
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        await this.checkNotReviewedYet(user.id, postedToId);
+      }
+      throw error;
+    }
+
+    // Pending reviews are announced to the reviewed user once a moderator approves them
+    if (review.state === ReviewState.APPROVED) {
+      await this.notifyNewReview(review);
+    }
+
+    await this.completeReviewRequests(user, postedToId);
 
     // Update the cache
-    const avgRatings = await this.calculateAvgRating(postedToId);
-    await this.cache.set(
-      `avg-ratings-${postedToId}`,
-      JSON.stringify(avgRatings),
-    );
+    await this.refreshRatingsCache(postedToId);
 
     return this.transformReview(review, user.id);
   }
 
-  async getAvgUserRatings(userId: User['id']) {
+  // only the ratings are cached, the labels of the dimensions are added when they are read
+  private async toRatingDto(
+    avgRatings: DimensionScores,
+    reputation?: ReputationScoreDto,
+  ): Promise<RatingDto> {
+    const dimensions = await this.ratingDimensionsService.getDimensions(true);
+
+    return {
+      professionalism: avgRatings.professionalism ?? 0,
+      reliability: avgRatings.reliability ?? 0,
+      communication: avgRatings.communication ?? 0,
+      scores: this.ratingDimensionsService.toScoreDtos(avgRatings, dimensions),
+      reputation,
+    };
+  }
+
+  // Rating stats of users who hid their reviews are only shown to themselves, and reported
+  // as not found to the others, like unknown users
+  private async checkCanSeeRatings(
+    currentUserId: User['id'] | null,
+    userId: User['id'],
+  ) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { settings: { select: { reviewsVisible: true } } },
+    });
+
+    const canSeeRatings =
+      user &&
+      (user.settings?.reviewsVisible !== false || userId === currentUserId);
+    if (!canSeeRatings) {
+      throw new NotFoundException('User not found');
+    }
+  }
+
+  /**
+   * Get the average ratings and the reputation of a user, the current user is null for
+   * public pages
+   */
+  async getAvgUserRatings(
+    currentUserId: User['id'] | null,
+    userId: User['id'],
+  ): Promise<RatingDto> {
+    await this.checkCanSeeRatings(currentUserId, userId);
+
+    const reputation = await this.reputationService.getReputation(userId);
+
     // Check the cache first
     const cachedRatings = JSON.parse(
-      await this.cache.get(`avg-ratings-${userId}`),
+      await this.cache.get(`avg-scores-${userId}`),
     );
 
     // If present, return the cached ratings
     if (cachedRatings) {
-      return cachedRatings;
+      return this.toRatingDto(cachedRatings, reputation);
     }
 
     // If not, calculate the average ratings
     const avgRatings = await this.calculateAvgRating(userId);
 
     // Cache the ratings for 24 hours
-    await this.cache.set(`avg-ratings-${userId}`, JSON.stringify(avgRatings));
+    await this.cache.set(`avg-scores-${userId}`, JSON.stringify(avgRatings));
+
+    return this.toRatingDto(avgRatings, reputation);
+  }
+
+  async getRatingDistribution(
+    currentUserId: User['id'],
+    userId: User['id'],
+  ): Promise<RatingDistributionDto> {
+    await this.checkCanSeeRatings(currentUserId, userId);
+
+    let distribution: ScoreDistribution = JSON.parse(
+      await this.cache.get(`score-distribution-${userId}`),
+    );
+
+    if (!distribution) {
+      distribution = await this.calculateRatingDistribution(userId);
+      await this.cache.set(
+        `score-distribution-${userId}`,
+        JSON.stringify(distribution),
+      );
+    }
+
+    const { histograms, ...totals } = distribution;
+    const dimensions = await this.ratingDimensionsService.getDimensions(true);
+
+    return {
+      professionalism: histograms.professionalism ?? this.getEmptyHistogram(),
+      reliability: histograms.reliability ?? this.getEmptyHistogram(),
+      communication: histograms.communication ?? this.getEmptyHistogram(),
+      scores: dimensions
+        .filter((d) => histograms[d.id])
+        .map((d) => ({
+          dimension: d.id,
+          label: d.label,
+          histogram: histograms[d.id],
+        })),
+      ...totals,
+    };
+  }
+
+  /**
+   * Get the average ratings and the number of approved reviews of a user for every week
+   * or month with reviews. The bucketing is done by the database.
+   */
+  async getRatingTrend(
+    currentUserId: User['id'],
+    userId: User['id'],
+    { bucket = RatingTrendBucket.MONTH, from, to }: RatingTrendQueryDto,
+  ): Promise<RatingTrendPointDto[]> {
+    await this.checkCanSeeRatings(currentUserId, userId);
+
+    // bucket is validated against the enum, so it is safe to inline
+    const unit = Prisma.raw(
+      `'${bucket === RatingTrendBucket.WEEK ? 'week' : 'month'}'`,
+    );
+
+    // one row per bucket with the number of reviews (dimension is null), and one row per
+    // bucket and dimension with the average rating
+    const [rows, dimensions] = await Promise.all([
+      this.prisma.$queryRaw<
+        {
+          bucket: Date;
+          dimension: string | null;
+          count: bigint;
+          rating: number;
+        }[]
+      >`
+        SELECT date_trunc(${unit}, r."createdAt") AS "bucket",
+          s."dimensionId" AS "dimension",
+          COUNT(DISTINCT r."id") AS "count",
+          AVG(s."rating")::float AS "rating"
+        FROM "Review" r
+        JOIN "ReviewScore" s ON s."reviewId" = r."id"
+        WHERE r."postedToId" = ${userId}
+          AND r."state" = 'APPROVED'::"ReviewState"
+          ${from ? Prisma.sql`AND r."createdAt" >= ${from}` : Prisma.empty}
+          ${to ? Prisma.sql`AND r."createdAt" <= ${to}` : Prisma.empty}
+        GROUP BY GROUPING SETS ((1), (1, 2))
+        ORDER BY 1 ASC
+      `,
+      this.ratingDimensionsService.getDimensions(true),
+    ]);
+
+    const points = new Map<
+      number,
+      { bucket: Date; count: number; scores: DimensionScores }
+    >();
+    for (const row of rows) {
+      const point = points.get(row.bucket.getTime()) ?? {
+        bucket: row.bucket,
+        count: 0,
+        scores: {},
+      };
+
+      if (row.dimension === null) {
+        point.count = Number(row.count);
+      } else {
+        point.scores[row.dimension] = row.rating;
+      }
+
+      points.set(row.bucket.getTime(), point);
+    }
 
-    return avgRatings;
+    return [...points.values()].map(({ bucket, count, scores }) => ({
+      bucket,
+      count,
+      ...this.ratingDimensionsService.toLegacyRatings(scores),
+      scores: this.ratingDimensionsService.toScoreDtos(scores, dimensions),
+    }));
+  }
+
+  /**
+   * Get the skills a user is most often praised for in the approved reviews visible to
+   * the current user.
+   */
+  async getTopSkills(
+    currentUserId: User['id'],
+    userId: User['id'],
+    limit: number,
+  ): Promise<EndorsedSkillDto[]> {
+    const groups = await this.prisma.reviewSkill.groupBy({
+      by: ['skillId'],
+      where: {
+        review: {
+          postedToId: userId,
+          state: ReviewState.APPROVED,
+          ...this.getVisibleReviewsFilter(currentUserId),
+        },
+      },
+      _count: { _all: true },
+      orderBy: [{ _count: { skillId: 'desc' } }, { skillId: 'asc' }],
+      take: limit,
+    });
+
+    const skills = await this.prisma.skill.findMany({
+      where: { id: { in: groups.map((g) => g.skillId) } },
+    });
+
+    return groups.map((group) => {
+      const skill = skills.find((s) => s.id === group.skillId);
+      return { id: skill.id, name: skill.name, count: group._count._all };
+    });
   }
 
   async getReview(userId: User['id'], reviewId: Review['id']) {
@@ -249,11 +846,7 @@ export class ReviewsService {
       },
     });
 
-    const avgRatings = await this.calculateAvgRating(review.postedToId);
-    await this.cache.set(
-      `avg-ratings-${review.postedToId}`,
-      JSON.stringify(avgRatings),
-    );
+    await this.refreshRatingsCache(review.postedToId);
 
     return true;
   }
@@ -263,26 +856,71 @@ export class ReviewsService {
     reviewId: string,
     data: UpdateReviewDto,
   ): Promise<ReviewDto> {
+    const existingReview = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+      include: { scores: true },
+    });
+
+    const filtered = this.contentFilter.check(
+      data.comment ?? existingReview.comment,
+    );
+
+    // only the dimensions that are sent are rated again
+    const scores: DimensionScores = {
+      ...Object.fromEntries(
+        existingReview.scores.map((s) => [s.dimensionId, s.rating]),
+      ),
+      ...(await this.ratingDimensionsService.getScores(data, false)),
+    };
+
+    // the review as it will look after the update
+    const content = {
+      scores,
+      comment: filtered.text,
+      anonymous: data.anonymous ?? existingReview.anonymous,
+    };
+
+    // Edited reviews go through the moderation rules again, which can only make the state
+    // stricter: pending reviews wait for a moderator and blocked reviews stay blocked.
+    let state: ReviewState;
+    if (existingReview.state !== ReviewState.APPROVED) {
+      state = existingReview.state;
+    } else if (filtered.requiresModeration) {
+      state = ReviewState.PENDING;
+    } else {
+      state = await this.moderationPolicy.getInitialState(user, content);
+    }
+
+    // The new version is stored in the review history together with the update
     const review = await this.prisma.review.update({
       where: {
         id: reviewId,
       },
       data: {
-        professionalism: data.professionalism,
-        communication: data.communication,
-        reliability: data.reliability,
-        comment: data.comment,
-        anonymous: data.anonymous,
+        comment: content.comment,
+        anonymous: content.anonymous,
+        scores: { deleteMany: {}, create: this.getReviewScoresData(scores) },
+        overallRating: this.getOverallRating(scores),
+        state,
+        // only approved reviews can stay featured
+        featuredPosition: state === ReviewState.APPROVED ? undefined : null,
+        moderationReason: this.getContentFilterReason(filtered.reasons),
+        // flagged content waits for a moderator even if the reports are dismissed
+        hiddenByReports: filtered.requiresModeration ? false : undefined,
+        editedAt: new Date(),
+        revisions: {
+          create: content,
+        },
+        // the skills are replaced only when they are sent
+        skills: data.skills
+          ? { deleteMany: {}, create: this.getReviewSkillsData(data.skills) }
+          : undefined,
       },
       include: this.includeWithReview(user.id),
     });
 
     // Update the cache
-    const avgRatings = await this.calculateAvgRating(review.postedToId);
-    await this.cache.set(
-      `avg-ratings-${review.postedToId}`,
-      JSON.stringify(avgRatings),
-    );
+    await this.refreshRatingsCache(review.postedToId);
 
     return this.transformReview(review, user.id);
   }
@@ -291,10 +929,12 @@ export class ReviewsService {
     currentUserId: string,
     userId: string,
   ): Promise<ReviewDto | undefined> {
-    const review = await this.prisma.review.findFirst({
+    const review = await this.prisma.review.findUnique({
       where: {
-        postedById: currentUserId,
-        postedToId: userId,
+        postedById_postedToId: {
+          postedById: currentUserId,
+          postedToId: userId,
+        },
       },
       include: this.includeWithReview(currentUserId),
     });
@@ -306,26 +946,380 @@ export class ReviewsService {
     return this.transformReview(review, currentUserId);
   }
 
-  async getReviewPostedBy(currentUserId: User['id']): Promise<ReviewDto[]> {
-    const reviews = await this.prisma.review.findMany({
+  async getReviewPostedBy(
+    currentUserId: User['id'],
+    query: ReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    return this.paginateReviews(
+      currentUserId,
+      { postedById: currentUserId },
+      query,
+    );
+  }
+
+  /**
+   * Get the reviews a user liked, most recently liked first. Reviews the current user
+   * can't see anymore are left out.
+   */
+  async getFavoriteReviews(
+    currentUserId: User['id'],
+    userId: User['id'],
+    query: FavoriteReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    const favorites = await this.prisma.favoriteReview.findMany({
       where: {
-        postedById: currentUserId,
+        userId,
+        collectionId: query.collectionId,
+        review: {
+          AND: [
+            {
+              OR: [
+                { state: ReviewState.APPROVED },
+                { postedById: currentUserId },
+              ],
+            },
+            this.getVisibleReviewsFilter(currentUserId),
+          ],
+        },
       },
-      include: this.includeWithReview(currentUserId),
+      include: { review: { include: this.includeWithReview(currentUserId) } },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPaginationArgs(query),
     });
 
-    return reviews.map((r) => this.transformReview(r, currentUserId));
+    return toPaginatedDto(favorites, query, (f) =>
+      this.transformReview(f.review, currentUserId),
+    );
+  }
+
+  async getLatestReviews(
+    currentUserId: User['id'],
+    query: ReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewDto>> {
+    return this.paginateReviews(
+      currentUserId,
+      {
+        state: ReviewState.APPROVED,
+        ...this.getVisibleReviewsFilter(currentUserId),
+      },
+      query,
+    );
   }
 
-  async getLatestReviews(currentUserId: User['id']): Promise<ReviewDto[]> {
+  /**
+   * Full-text search in the comments of the reviews the current user can see, most relevant
+   * first. The ranking has no stable key to point to, so the cursor is the offset of the page.
+   */
+  async searchReviews(
+    currentUserId: User['id'],
+    query: SearchReviewsQueryDto,
+  ): Promise<PaginatedDto<ReviewSearchResultDto>> {
+    const limit = Number(query.limit) || DEFAULT_PAGE_SIZE;
+    const offset = Math.max(0, Number(query.cursor) || 0);
+
+    // same rules as the other listings: approved or own reviews, of users who didn't hide them
+    const rows = await this.prisma.$queryRaw<
+      { id: string; rank: number; snippet: string }[]
+    >`
+      SELECT r."id",
+        ts_rank(r."searchVector", q."query") AS "rank",
+        ts_headline(
+          'english',
+          replace(replace(replace(r."comment", '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+          q."query",
+          'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10'
+        ) AS "snippet"
+      FROM "Review" r
+      CROSS JOIN websearch_to_tsquery('english', ${query.q}) AS q("query")
+      LEFT JOIN "UserSettings" s ON s."userId" = r."postedToId"
+      WHERE r."searchVector" @@ q."query"
+        AND (r."state" = 'APPROVED'::"ReviewState" OR r."postedById" = ${currentUserId})
+        AND (
+          r."postedToId" = ${currentUserId}
+          OR r."postedById" = ${currentUserId}
+          OR s."reviewsVisible" IS DISTINCT FROM false
+        )
+        ${query.postedToId ? Prisma.sql`AND r."postedToId" = ${query.postedToId}` : Prisma.empty}
+        ${query.minRating ? Prisma.sql`AND r."overallRating" >= ${query.minRating}` : Prisma.empty}
+        ${query.maxRating ? Prisma.sql`AND r."overallRating" <= ${query.maxRating}` : Prisma.empty}
+        ${query.from ? Prisma.sql`AND r."createdAt" >= ${query.from}` : Prisma.empty}
+        ${query.to ? Prisma.sql`AND r."createdAt" <= ${query.to}` : Prisma.empty}
+      ORDER BY "rank" DESC, r."createdAt" DESC, r."id" DESC
+      LIMIT ${limit + 1} OFFSET ${offset}
+    `;
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+
     const reviews = await this.prisma.review.findMany({
+      where: { id: { in: page.map((row) => row.id) } },
       include: this.includeWithReview(currentUserId),
+    });
+
+    return {
+      items: page.flatMap((row) => {
+        const review = reviews.find((r) => r.id === row.id);
+
+        // the review may have been deleted between the two queries
+        if (!review) {
+          return [];
+        }
+
+        return [
+          {
+            ...this.transformReview(review, currentUserId),
+            rank: row.rank,
+            snippet: row.snippet,
+          },
+        ];
+      }),
+      nextCursor: hasMore ? String(offset + limit) : null,
+    };
+  }
+
+  async getPendingReviews(moderatorId: User['id']): Promise<ReviewDto[]> {
+    const reviews = await this.prisma.review.findMany({
+      where: {
+        state: ReviewState.PENDING,
+      },
+      include: this.includeWithReview(moderatorId),
+      // oldest reviews are the first in the moderation queue
       orderBy: {
-        createdAt: 'desc',
+        createdAt: 'asc',
+      },
+    });
+
+    return reviews.map((r) => this.transformReview(r, moderatorId));
+  }
+
+  async moderateReview(
+    moderator: User,
+    reviewId: Review['id'],
+    state: ReviewState,
+    reason?: string,
+  ): Promise<ReviewDto> {
+    const existingReview = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+    });
+
+    if (!existingReview) {
+      throw new NotFoundException('Review not found');
+    }
+
+    if (existingReview.state === state) {
+      throw new BadRequestException(`Review is already ${state.toLowerCase()}`);
+    }
+
+    const review = await this.prisma.review.update({
+      where: { id: reviewId },
+      data: {
+        state,
+        featuredPosition: state === ReviewState.APPROVED ? undefined : null,
+        moderatedById: moderator.id,
+        moderatedAt: new Date(),
+        moderationReason: reason ?? null,
+        hiddenByReports: false,
+      },
+      include: this.includeWithReview(moderator.id),
+    });
+
+    await this.refreshRatingsCache(review.postedToId);
+
+    // Let the author know about the new state of their review
+    if (review.postedById) {
+      await this.notificationsService.sendNotificationToUser(
+        review.postedById,
+        NotificationType.REVIEW_MODERATION,
+        state === ReviewState.APPROVED
+          ? 'Your review has been approved and is now public.'
+          : `Your review has been blocked${reason ? `: ${reason}` : '.'}`,
+        'Culero review update',
+        { reviewId: review.id, state, reason },
+      );
+    }
+
+    // The reviewed user gets to know about a review only once it is public
+    if (
+      state === ReviewState.APPROVED &&
+      existingReview.state === ReviewState.PENDING
+    ) {
+      await this.notifyNewReview(review);
+    }
+
+    return this.transformReview(review, moderator.id);
+  }
+
+  // put a reported review back in the moderation queue, hiding it until a moderator checks it
+  async sendReviewToModeration(reviewId: Review['id'], reason: string) {
+    const review = await this.prisma.review.update({
+      where: { id: reviewId },
+      data: {
+        state: ReviewState.PENDING,
+        featuredPosition: null,
+        moderationReason: reason,
+        hiddenByReports: true,
       },
-      take: 25,
     });
 
-    return reviews.map((r) => this.transformReview(r, currentUserId));
+    await this.refreshRatingsCache(review.postedToId);
+  }
+
+  // check if the review with reviewId was posted to the user with userId
+  /**
+   * Only the reviewed user can manage the response to a review. A new response
+   * needs an approved review, but an existing one can still be edited or removed
+   * once the review goes back to moderation.
+   */
+  async canUserRespondToReview(
+    userId: User['id'],
+    reviewId: Review['id'],
+    isNewResponse = false,
+  ) {
+    const review = await this.getReview(userId, reviewId);
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    if (review.postedToId !== userId) {
+      throw new ForbiddenException(
+        `User ${userId} cannot respond to review ${reviewId}`,
+      );
+    }
+
+    if (isNewResponse && review.state !== ReviewState.APPROVED) {
+      throw new BadRequestException('You can only respond to approved reviews');
+    }
+
+    return true;
+  }
+
+  async createReviewResponse(
+    user: User,
+    reviewId: Review['id'],
+    data: ReviewResponseBodyDto,
+  ): Promise<ReviewDto> {
+    const existingResponse = await this.prisma.reviewResponse.findUnique({
+      where: { reviewId },
+    });
+
+    if (existingResponse) {
+      throw new ConflictException('You have already responded to this review');
+    }
+
+    await this.prisma.reviewResponse.create({
+      data: {
+        reviewId,
+        comment: data.comment,
+      },
+    });
+
+    const review = await this.getReview(user.id, reviewId);
+
+    // Let the author know the reviewed user answered
+    if (review.postedById) {
+      await this.notificationsService.sendNotificationToUser(
+        review.postedById,
+        NotificationType.REVIEW_RESPONSE,
+        `${user.name ?? 'The reviewed user'} replied to your review`,
+        'New reply to your Culero review',
+        { reviewId, postedToId: review.postedToId },
+      );
+    }
+
+    return this.transformReview(review, user.id);
+  }
+
+  async updateReviewResponse(
+    user: User,
+    reviewId: Review['id'],
+    data: ReviewResponseBodyDto,
+  ): Promise<ReviewDto> {
+    const existingResponse = await this.prisma.reviewResponse.findUnique({
+      where: { reviewId },
+    });
+
+    if (!existingResponse) {
+      throw new NotFoundException('Response not found');
+    }
+
+    await this.prisma.reviewResponse.update({
+      where: { reviewId },
+      data: {
+        comment: data.comment,
+      },
+    });
+
+    const review = await this.getReview(user.id, reviewId);
+
+    return this.transformReview(review, user.id);
+  }
+
+  async deleteReviewResponse(
+    user: User,
+    reviewId: Review['id'],
+  ): Promise<ReviewDto> {
+    const existingResponse = await this.prisma.reviewResponse.findUnique({
+      where: { reviewId },
+    });
+
+    if (!existingResponse) {
+      throw new NotFoundException('Response not found');
+    }
+
+    await this.prisma.reviewResponse.delete({
+      where: { reviewId },
+    });
+
+    const review = await this.getReview(user.id, reviewId);
+
+    return this.transformReview(review, user.id);
+  }
+
+  /**
+   * Get every version of a review, oldest first. Only the author, the reviewed user
+   * and the moderators can see the history of a review.
+   */
+  async getReviewHistory(
+    user: User,
+    reviewId: Review['id'],
+  ): Promise<ReviewRevisionDto[]> {
+    const review = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+      include: {
+        revisions: {
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    const isModerator =
+      user.role === UserRole.MODERATOR || user.role === UserRole.ADMIN;
+    if (
+      review.postedById !== user.id &&
+      review.postedToId !== user.id &&
+      !isModerator
+    ) {
+      throw new ForbiddenException(
+        `User ${user.id} has no access to the history of review ${reviewId}`,
+      );
+    }
+
+    return review.revisions.map((revision) => ({
+      id: revision.id,
+      ...this.ratingDimensionsService.toLegacyRatings(
+        revision.scores as DimensionScores,
+      ),
+      scores: this.ratingDimensionsService.toRatingScoreDtos(
+        revision.scores as DimensionScores,
+      ),
+      comment: revision.comment ?? undefined,
+      isAnonymous: revision.anonymous,
+      createdAt: revision.createdAt,
+    }));
   }
 }
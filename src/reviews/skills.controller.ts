@@ -0,0 +1,22 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { SkillsService } from './skills.service';
+import { SearchSkillsQueryDto, SkillDto } from './dto/skill.dto';
+import { queryPipe } from '../../src/common/pipes/query.pipe';
+
+@Controller('reviews/skills')
+@ApiBearerAuth()
+@ApiTags('Skills controller')
+export class SkillsController {
+  constructor(private readonly skillsService: SkillsService) {}
+
+  /**
+   * Search the skill catalog to suggest skills while tagging a review
+   */
+  @Get()
+  async searchSkills(
+    @Query(queryPipe) query: SearchSkillsQueryDto,
+  ): Promise<SkillDto[]> {
+    return this.skillsService.searchSkills(query);
+  }
+}
@@ -0,0 +1,36 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SkillsService } from './skills.service';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('SkillsService', () => {
+  let service: SkillsService;
+  let prisma: { skill: { findMany: jest.Mock } };
+
+  beforeEach(async () => {
+    prisma = {
+      skill: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            { id: '1', name: 'TypeScript', slug: 'typescript' },
+          ]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SkillsService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<SkillsService>(SkillsService);
+  });
+
+  it('should search the skills by their normalized name', async () => {
+    const skills = await service.searchSkills({ q: '  Type  ', limit: 5 });
+
+    expect(prisma.skill.findMany.mock.calls[0][0].where).toEqual({
+      slug: { contains: 'type' },
+    });
+    expect(prisma.skill.findMany.mock.calls[0][0].take).toBe(5);
+    expect(skills).toEqual([{ id: '1', name: 'TypeScript' }]);
+  });
+});
@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { getSkillSlug } from '../../src/utils/skills';
+import { SearchSkillsQueryDto, SkillDto } from './dto/skill.dto';
+
+@Injectable()
+export class SkillsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Autocomplete skill names. The skills reviews are tagged with the most come first.
+   */
+  async searchSkills({ q, limit }: SearchSkillsQueryDto): Promise<SkillDto[]> {
+    const skills = await this.prisma.skill.findMany({
+      where: { slug: { contains: getSkillSlug(q) } },
+      orderBy: [{ reviews: { _count: 'desc' } }, { name: 'asc' }],
+      take: limit,
+    });
+
+    return skills.map((s) => ({ id: s.id, name: s.name }));
+  }
+}
@@ -11,6 +11,10 @@ export const userProperties = {
   headline: { type: 'string' },
   joinedAt: { type: 'string', format: 'date-time' },
   location: { type: 'string' },
+  role: {
+    type: 'enum',
+    enum: ['USER', 'MODERATOR', 'ADMIN'],
+  },
 };
 
 export const userExtraProps = {
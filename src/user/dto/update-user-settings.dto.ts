@@ -8,4 +8,8 @@ export class UpdateUserSettingsDto {
   @IsBoolean()
   @IsOptional()
   reviewsVisible?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  publicBadge?: boolean;
 }
@@ -6,4 +6,7 @@ export class UserSettingsDto {
 
   @IsBoolean()
   reviewsVisible: boolean;
+
+  @IsBoolean()
+  publicBadge: boolean;
 }
@@ -0,0 +1,29 @@
+import {
+  DEFAULT_PAGE_SIZE,
+  PaginatedDto,
+  PaginationQueryDto,
+} from '../common/dto/pagination.dto';
+
+// Prisma arguments to fetch a page. One extra row is fetched to know if there is a next page.
+export const getPaginationArgs = ({ limit, cursor }: PaginationQueryDto) => {
+  return {
+    take: (Number(limit) || DEFAULT_PAGE_SIZE) + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  };
+};
+
+// Builds the paginated envelope from the rows fetched with getPaginationArgs
+export const toPaginatedDto = <T extends { id: string }, R = T>(
+  rows: T[],
+  { limit }: PaginationQueryDto,
+  transform: (row: T) => R,
+): PaginatedDto<R> => {
+  const pageSize = Number(limit) || DEFAULT_PAGE_SIZE;
+  const hasMore = rows.length > pageSize;
+  const page = hasMore ? rows.slice(0, pageSize) : rows;
+
+  return {
+    items: page.map(transform),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+};
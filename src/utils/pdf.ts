@@ -0,0 +1,123 @@
+// Red, green and blue components between 0 and 1
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+// average width of a Helvetica character relative to the font size, to wrap text without font metrics
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+// the standard fonts only cover Latin-1, other characters are replaced
+const escapeText = (text: string) =>
+  text.replace(/[^\x20-\xff]/g, '?').replace(/[\\()]/g, (char) => `\\${char}`);
+
+const toRgb = ([r, g, b]: PdfColor) => `${r} ${g} ${b}`;
+
+/**
+ * Minimal PDF writer for A4 pages with text and filled rectangles, using the standard
+ * Helvetica fonts that every reader provides. Coordinates are in points from the top left
+ * corner of the page.
+ */
+export class PdfDocument {
+  readonly width = 595;
+  readonly height = 842;
+
+  private readonly pages: string[][] = [];
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private get content() {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+    return this.pages[this.pages.length - 1];
+  }
+
+  // y is the baseline of the text
+  text(
+    text: string,
+    x: number,
+    y: number,
+    { size = 10, bold = false, color = [0, 0, 0] }: PdfTextOptions = {},
+  ) {
+    this.content.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${toRgb(color)} rg ${x} ${this.height - y} Td (${escapeText(text)}) Tj ET`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: PdfColor) {
+    this.content.push(
+      `${toRgb(color)} rg ${x} ${this.height - y - height} ${width} ${height} re f`,
+    );
+  }
+
+  // splits a text in lines that fit in the given width
+  static wrap(text: string, width: number, size: number): string[] {
+    const maxChars = Math.max(
+      1,
+      Math.floor(width / (size * AVERAGE_CHAR_WIDTH)),
+    );
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        if (line && line.length + word.length + 1 > maxChars) {
+          lines.push(line);
+          line = '';
+        }
+        line = line ? `${line} ${word}` : word;
+        // words longer than a line are cut
+        while (line.length > maxChars) {
+          lines.push(line.slice(0, maxChars));
+          line = line.slice(maxChars);
+        }
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  toBuffer(): Buffer {
+    const pages = this.pages.length > 0 ? this.pages : [[]];
+
+    // 1: catalog, 2: page tree, 3 and 4: fonts, then a page and its content per page
+    const pageIds = pages.map((_, i) => 5 + i * 2);
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    pages.forEach((content, i) => {
+      const stream = content.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+        `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`,
+      );
+    });
+
+    // every character is a single latin1 byte, so string lengths are byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, i) => {
+      const offset = pdf.length;
+      pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets
+      .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+      .join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+  }
+}
@@ -0,0 +1,18 @@
+// Skills are compared without case and extra whitespace, " Type  Script" and "type script" are the same skill
+export const normalizeSkillName = (name: string) =>
+  name.trim().replace(/\s+/g, ' ');
+
+export const getSkillSlug = (name: string) =>
+  normalizeSkillName(name).toLowerCase();
+
+// Removes the repeated skills of a list, keeping the first spelling of each one
+export const uniqueSkillNames = (names: string[]) => {
+  const skills = new Map<string, string>();
+  for (const name of names) {
+    const slug = getSkillSlug(name);
+    if (slug && !skills.has(slug)) {
+      skills.set(slug, normalizeSkillName(name));
+    }
+  }
+  return [...skills.values()];
+};
@@ -0,0 +1,94 @@
+import { createHmac, randomBytes } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// the defaults of authenticator apps, some of them ignore other values
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+
+// codes of the previous and next periods are accepted too, for clocks drifting apart
+const ALLOWED_DRIFT_STEPS = 1;
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = '';
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+
+  let encoded = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    encoded +=
+      BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return encoded;
+};
+
+const base32Decode = (encoded: string) => {
+  let bits = '';
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0');
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generate a random base32 secret, the format authenticator apps expect
+ */
+export const generateTotpSecret = () => base32Encode(randomBytes(20));
+
+export const getTotpStep = (time = Date.now()) =>
+  Math.floor(time / 1000 / PERIOD_SECONDS);
+
+/**
+ * Compute the code of a time step as described in RFC 6238, with HMAC-SHA1
+ */
+export const generateTotp = (secret: string, step: number) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+  return code.toString().padStart(DIGITS, '0');
+};
+
+/**
+ * Get the time step a code was generated for, or null if the code is invalid. Remembering
+ * the step of the last accepted code lets callers reject replayed codes.
+ */
+export const verifyTotp = (secret: string, code: string, time = Date.now()) => {
+  const currentStep = getTotpStep(time);
+  for (
+    let drift = -ALLOWED_DRIFT_STEPS;
+    drift <= ALLOWED_DRIFT_STEPS;
+    drift++
+  ) {
+    if (generateTotp(secret, currentStep + drift) === code) {
+      return currentStep + drift;
+    }
+  }
+  return null;
+};
+
+/**
+ * Build the otpauth:// URI authenticator apps scan as a QR code
+ */
+export const getTotpUri = (secret: string, account: string, issuer: string) => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: DIGITS.toString(),
+    period: PERIOD_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params}`;
+};